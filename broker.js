@@ -0,0 +1,6 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { startSocketBroker } = require("./src/server/socket-broker.ts");
+
+const port = parseInt(process.env.BROKER_PORT || "4000", 10);
+
+startSocketBroker(port);
@@ -11,9 +11,19 @@ const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
 app.prepare().then(() => {
+  // Rooms live in this process, so the room browser is served here too
+  const {
+    handleRoomBrowserRequest,
+    ROOM_BROWSER_PATH,
+  } = require("./src/server/room-browser.ts");
+
   const server = createServer(async (req, res) => {
     try {
       const parsedUrl = parse(req.url, true);
+      if (parsedUrl.pathname === ROOM_BROWSER_PATH) {
+        handleRoomBrowserRequest(req, res);
+        return;
+      }
       await handle(req, res, parsedUrl);
     } catch (err) {
       console.error("Error handling request", err);
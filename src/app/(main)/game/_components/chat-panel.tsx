@@ -0,0 +1,145 @@
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { isPlaying } from "@/src/lib/players";
+import { socketService } from "@/src/lib/socket-service";
+import { useGameStore } from "@/src/stores/game-store";
+import type { ChatChannel, ChatMessage } from "@/src/types/game";
+import { MessageSquare, Send } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+const MAX_MESSAGE_LENGTH = 200;
+
+export default function ChatPanel() {
+  const { gameState, currentPlayerId, privateData } = useGameStore();
+  const t = useTranslations("ChatPanel");
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [text, setText] = useState("");
+  const [channel, setChannel] = useState<ChatChannel>("room");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
+  const inRound = ["clues", "discussion", "voting", "impostorguess"].includes(
+    gameState.phase,
+  );
+  // Spectators and ejected players only read along during the round
+  const canSend = !inRound || (!!currentPlayer && isPlaying(currentPlayer));
+  // Only impostors who were told their teammates know the channel exists
+  const hasImpostorChannel =
+    gameState.gameStarted && !!privateData?.teammates?.length;
+  const activeChannel = hasImpostorChannel ? channel : "room";
+
+  useEffect(() => {
+    socketService.getChatHistory(response => {
+      if (response.success && response.messages) {
+        setMessages(response.messages);
+      }
+    });
+
+    const handleChatMessage = (message: ChatMessage) => {
+      setMessages(prev =>
+        prev.some(m => m.id === message.id) ? prev : [...prev, message],
+      );
+    };
+
+    socketService.onChatMessage(handleChatMessage);
+    return () => {
+      socketService.removeListener("chat-message", handleChatMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSend = () => {
+    const message = text.trim();
+    if (!message) return;
+
+    socketService.sendChatMessage(message, activeChannel, response => {
+      if (response.success) {
+        setText("");
+      } else {
+        toast.error(response.error || t("failedToSend"));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-zinc-700 bg-zinc-900/50 p-4 text-left">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-semibold text-zinc-400">
+          <MessageSquare className="h-4 w-4" />
+          {t("chat")}
+        </p>
+        {hasImpostorChannel && (
+          <div className="flex gap-1">
+            {(["room", "impostors"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={channel === option ? "default" : "ghost"}
+                onClick={() => setChannel(option)}
+              >
+                {option === "room" ? t("everyone") : t("impostors")}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div ref={listRef} className="max-h-48 space-y-1 overflow-y-auto text-sm">
+        {messages.length === 0 ? (
+          <p className="text-zinc-500">{t("noMessages")}</p>
+        ) : (
+          messages.map(message => (
+            <p key={message.id} className="break-words text-gray-300">
+              {message.channel === "impostors" && (
+                <span className="mr-1 text-red-400">[{t("impostors")}]</span>
+              )}
+              <span
+                className={
+                  message.playerId === currentPlayerId
+                    ? "font-semibold text-purple-400"
+                    : "font-semibold text-zinc-200"
+                }
+              >
+                {message.playerName}:
+              </span>{" "}
+              {message.text}
+            </p>
+          ))
+        )}
+      </div>
+
+      {canSend ? (
+        <div className="flex gap-2">
+          <Input
+            value={text}
+            onChange={e => setText(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter") handleSend();
+            }}
+            placeholder={
+              activeChannel === "impostors"
+                ? t("messageImpostors")
+                : t("messageEveryone")
+            }
+            maxLength={MAX_MESSAGE_LENGTH}
+          />
+          <Button
+            onClick={handleSend}
+            disabled={!text.trim()}
+            size="icon"
+            aria-label={t("send")}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-zinc-500">{t("readOnly")}</p>
+      )}
+    </div>
+  );
+}
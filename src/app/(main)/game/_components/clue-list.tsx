@@ -0,0 +1,42 @@
+import type { Clue } from "@/src/types/game";
+import { useTranslations } from "next-intl";
+
+interface ClueListProps {
+  clues: Clue[];
+}
+
+// Clues given so far, in the order they were given
+export default function ClueList({ clues }: ClueListProps) {
+  const t = useTranslations("ClueList");
+
+  if (clues.length === 0) return null;
+
+  // Only label rounds once elimination games have had more than one
+  const showRounds = clues.some(clue => clue.voteRound > 1);
+
+  return (
+    <div className="space-y-2 rounded-xl border border-zinc-700 bg-zinc-800/30 p-4 text-left">
+      <p className="text-sm font-medium text-zinc-400">{t("clues")}</p>
+      {clues.map((clue, index) => (
+        <div
+          key={`${clue.voteRound}-${clue.playerId}-${index}`}
+          className="flex items-center justify-between gap-2 text-gray-300"
+        >
+          <span>
+            {showRounds && (
+              <span className="mr-2 text-xs text-zinc-500">
+                {t("round", { round: clue.voteRound })}
+              </span>
+            )}
+            {clue.playerName}
+          </span>
+          {clue.text ? (
+            <span className="font-semibold text-purple-400">{clue.text}</span>
+          ) : (
+            <span className="text-sm text-zinc-500 italic">{t("noClue")}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
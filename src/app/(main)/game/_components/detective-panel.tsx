@@ -0,0 +1,85 @@
+import { Button } from "@/src/components/ui/button";
+import { isPlaying } from "@/src/lib/players";
+import { socketService } from "@/src/lib/socket-service";
+import { useGameStore } from "@/src/stores/game-store";
+import { Search } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+
+interface DetectivePanelProps {
+  detectiveId: string;
+}
+
+// Lets the detective privately check one player per vote. Multiplayer asks
+// the server; local mode keeps the checks in the game state.
+export default function DetectivePanel({ detectiveId }: DetectivePanelProps) {
+  const { gameState, privateData, setPrivateData, investigatePlayer } =
+    useGameStore();
+  const t = useTranslations("SpecialRoles");
+
+  const investigations = gameState.isMultiplayer
+    ? privateData?.investigations || []
+    : (gameState.investigations || []).filter(
+        i => i.detectiveId === detectiveId,
+      );
+  const voteRound = gameState.voteRound ?? 1;
+  const hasInvestigated = investigations.some(i => i.voteRound === voteRound);
+  const suspects = gameState.players.filter(
+    p => p.id !== detectiveId && isPlaying(p),
+  );
+
+  const handleInvestigate = (playerId: string) => {
+    if (!gameState.isMultiplayer) {
+      investigatePlayer(detectiveId, playerId);
+      return;
+    }
+
+    socketService.investigatePlayer(playerId, response => {
+      if (response.success && response.investigation && privateData) {
+        setPrivateData({
+          ...privateData,
+          investigations: [...investigations, response.investigation],
+        });
+      } else {
+        toast.error(response.error || t("failedToInvestigate"));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-amber-600/30 bg-amber-600/10 p-4 text-center">
+      <p className="flex items-center justify-center gap-2 text-sm font-medium text-amber-300">
+        <Search className="h-4 w-4" />
+        {t("investigate")}
+      </p>
+
+      {investigations.map(investigation => (
+        <p
+          key={`${investigation.voteRound}-${investigation.playerId}`}
+          className={
+            investigation.isImpostor ? "text-red-400" : "text-green-400"
+          }
+        >
+          {investigation.isImpostor
+            ? t("isImpostor", { name: investigation.playerName })
+            : t("isNotImpostor", { name: investigation.playerName })}
+        </p>
+      ))}
+
+      {!hasInvestigated && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {suspects.map(player => (
+            <Button
+              key={player.id}
+              size="sm"
+              variant="outline"
+              onClick={() => handleInvestigate(player.id)}
+            >
+              {player.name}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { Ejection } from "@/src/types/game";
+import { useTranslations } from "next-intl";
+
+interface EjectedPlayersProps {
+  ejections: Ejection[];
+}
+
+// Players voted out so far, with their roles revealed
+export default function EjectedPlayers({ ejections }: EjectedPlayersProps) {
+  const t = useTranslations("EjectedPlayers");
+
+  if (ejections.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-xl border border-zinc-700 bg-zinc-800/30 p-4">
+      <p className="text-sm font-medium text-zinc-400">{t("ejected")}</p>
+      {ejections.map(ejection => (
+        <div
+          key={ejection.playerId}
+          className="flex items-center justify-between text-gray-300"
+        >
+          <span className="line-through">{ejection.playerName}</span>
+          <span
+            className={
+              ejection.role === "impostor" ? "text-red-400" : "text-green-400"
+            }
+          >
+            {ejection.role === "impostor"
+              ? t("wasImpostor")
+              : t("wasNotImpostor")}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
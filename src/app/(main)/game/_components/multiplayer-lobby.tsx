@@ -1,15 +1,49 @@
 "use client";
 
+import ChatPanel from "./chat-panel";
+import QuickMatch from "./quick-match";
+import RoomBrowser from "./room-browser";
+import RoomSettings from "./room-settings";
+import Scoreboard from "./scoreboard";
 import { Button } from "@/src/components/ui/button";
 import { Card } from "@/src/components/ui/card";
 import { Input } from "@/src/components/ui/input";
 import { Label } from "@/src/components/ui/label";
+import { Locale } from "@/src/config/language";
 import { useSocket } from "@/src/hooks/use-socket";
+import { getGameConfig } from "@/src/lib/game-config";
+import {
+  DEFAULT_MAX_PLAYERS,
+  getStartBlocker,
+  MIN_ROOM_PLAYERS,
+} from "@/src/lib/room-limits";
 import { socketService } from "@/src/lib/socket-service";
 import { useGameStore } from "@/src/stores/game-store";
-import type { Player, GameState } from "@/src/types/game";
-import { Users, Wifi, WifiOff, Copy, Check } from "lucide-react";
-import { useTranslations } from "next-intl";
+import type {
+  HostChangedData,
+  Player,
+  PlayerConnectedData,
+  PlayerKickedData,
+  PlayerUpdatedData,
+  PublicRoomSummary,
+  RoomClosedData,
+  RoomEntryData,
+  RoomLockChangedData,
+  RoomSettingsUpdatedData,
+} from "@/src/types/game";
+import {
+  Users,
+  Wifi,
+  WifiOff,
+  Copy,
+  Check,
+  Crown,
+  UserX,
+  Ban,
+  Lock,
+  LockOpen,
+} from "lucide-react";
+import { useLocale, useTranslations } from "next-intl";
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 
@@ -27,15 +61,17 @@ export function MultiplayerLobby({
   roomJustCreated = false,
 }: MultiplayerLobbyProps) {
   const { isConnected } = useSocket();
-  const [mode, setMode] = useState<"select" | "join">(
+  const [mode, setMode] = useState<"select" | "join" | "browse" | "queue">(
     isHostMode ? "select" : "select",
   );
   const [playerName, setPlayerName] = useState("");
   const [roomCode, setRoomCode] = useState("");
+  const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [players, setPlayers] = useState<Player[]>([]);
   const [copied, setCopied] = useState(false);
   const t = useTranslations("MultiplayerLobby");
+  const locale = useLocale() as Locale;
 
   const gameState = useGameStore(state => state.gameState);
   const setRoomData = useGameStore(state => state.setRoomData);
@@ -45,7 +81,6 @@ export function MultiplayerLobby({
   );
   const clearRoomData = useGameStore(state => state.clearRoomData);
   const currentPlayerId = useGameStore(state => state.currentPlayerId);
-  const setCurrentPlayerId = useGameStore(state => state.setCurrentPlayerId);
   const isGeneratingWord = useGameStore(state => state.isGeneratingWord);
 
   const inRoom = !!gameState.roomCode;
@@ -55,26 +90,19 @@ export function MultiplayerLobby({
   useEffect(() => {
     if (!inRoom) return;
 
-    const handlePlayerJoined = (data: {
-      playerId: string;
-      playerName: string;
-      players: Player[];
-    }) => {
+    const handlePlayerJoined = (data: PlayerConnectedData) => {
       setPlayers(data.players);
       updatePlayers(data.players);
       toast.success(t("playerJoined", { name: data.playerName }));
     };
 
-    const handlePlayerLeft = (data: {
-      playerId: string;
-      players: Player[];
-    }) => {
+    const handlePlayerLeft = (data: PlayerUpdatedData) => {
       setPlayers(data.players);
       updatePlayers(data.players);
       toast.info(t("playerLeft"));
     };
 
-    const handleRoomClosed = (data: { message: string }) => {
+    const handleRoomClosed = (data: RoomClosedData) => {
       // Map server messages to translation keys
       let translatedMessage = data.message;
       if (data.message === "Host left the room") {
@@ -90,79 +118,72 @@ export function MultiplayerLobby({
       setMode("select");
     };
 
-    const handleHostChanged = (data: {
-      newHostId: string;
-      newHostName: string;
-      gameState: GameState;
-    }) => {
+    const handleHostChanged = (data: HostChangedData) => {
       toast.info(t("newHostIs", { name: data.newHostName }));
       updateGameStateFromServer(data.gameState);
       setPlayers(data.gameState.players);
       updatePlayers(data.gameState.players);
     };
 
-    const handlePlayerRejoined = (data: {
-      oldPlayerId: string;
-      newPlayerId: string;
-      playerName: string;
-      players: Player[];
-    }) => {
+    const handlePlayerRejoined = (data: PlayerConnectedData) => {
       console.log("Player rejoined event received:", {
-        oldPlayerId: data.oldPlayerId,
-        newPlayerId: data.newPlayerId,
-        currentPlayerId,
-        isCurrentPlayer: data.oldPlayerId === currentPlayerId,
+        playerId: data.playerId,
+        isCurrentPlayer: data.playerId === currentPlayerId,
       });
 
-      // If the rejoined player is the current player, update currentPlayerId
-      if (currentPlayerId === data.oldPlayerId) {
-        console.log(
-          "Updating currentPlayerId from",
-          data.oldPlayerId,
-          "to",
-          data.newPlayerId,
-        );
-        setCurrentPlayerId(data.newPlayerId);
-
-        // Also update room data to reflect the new host ID if this player was/is host
-        if (gameState.hostId === data.oldPlayerId) {
-          setRoomData(
-            gameState.roomCode!,
-            data.newPlayerId,
-            data.newPlayerId,
-            true,
-          );
-        }
-      }
-
       setPlayers(data.players);
       updatePlayers(data.players);
 
       // Only show toast if it's not the current player (avoid duplicate toasts)
-      if (currentPlayerId !== data.oldPlayerId) {
+      if (currentPlayerId !== data.playerId) {
         toast.success(t("playerRejoined", { name: data.playerName }));
       }
     };
 
+    const handleRoomSettingsUpdated = (data: RoomSettingsUpdatedData) => {
+      updateGameStateFromServer(data.settings);
+    };
+
+    const handlePlayerKicked = (data: PlayerKickedData) => {
+      if (data.playerId === currentPlayerId) {
+        toast.error(data.banned ? t("youWereBanned") : t("youWereKicked"));
+        clearRoomData();
+        setMode("select");
+        return;
+      }
+
+      setPlayers(data.players);
+      updatePlayers(data.players);
+      toast.info(
+        data.banned
+          ? t("playerBanned", { name: data.playerName })
+          : t("playerKicked", { name: data.playerName }),
+      );
+    };
+
+    const handleRoomLockChanged = (data: RoomLockChangedData) => {
+      updateGameStateFromServer({ locked: data.locked });
+    };
+
     socketService.onPlayerJoined(handlePlayerJoined);
     socketService.onPlayerLeft(handlePlayerLeft);
     socketService.onRoomClosed(handleRoomClosed);
+    socketService.onRoomSettingsUpdated(handleRoomSettingsUpdated);
+    socketService.onPlayerKicked(handlePlayerKicked);
+    socketService.onRoomLockChanged(handleRoomLockChanged);
     socketService.getSocket().on("host-changed", handleHostChanged);
     socketService.getSocket().on("player-rejoined", handlePlayerRejoined);
 
     return () => {
+      socketService.removeListener("player-joined", handlePlayerJoined);
+      socketService.removeListener("player-left", handlePlayerLeft);
+      socketService.removeListener("room-closed", handleRoomClosed);
       socketService.removeListener(
-        "player-joined",
-        handlePlayerJoined as (...args: unknown[]) => void,
-      );
-      socketService.removeListener(
-        "player-left",
-        handlePlayerLeft as (...args: unknown[]) => void,
-      );
-      socketService.removeListener(
-        "room-closed",
-        handleRoomClosed as (...args: unknown[]) => void,
+        "room-settings-updated",
+        handleRoomSettingsUpdated,
       );
+      socketService.removeListener("player-kicked", handlePlayerKicked);
+      socketService.removeListener("room-lock-changed", handleRoomLockChanged);
       socketService.getSocket().off("host-changed", handleHostChanged);
       socketService.getSocket().off("player-rejoined", handlePlayerRejoined);
     };
@@ -171,11 +192,41 @@ export function MultiplayerLobby({
     updatePlayers,
     clearRoomData,
     updateGameStateFromServer,
-    setCurrentPlayerId,
     currentPlayerId,
-    gameState.roomCode,
-    gameState.hostId,
-    setRoomData,
+    t,
+  ]);
+
+  // The host's settings live in their store; send them to the room whenever
+  // they change so everyone in the lobby sees them
+  const {
+    selectedCategories,
+    difficulty,
+    impostorCount,
+    showHintsToImpostors,
+    minPlayers = MIN_ROOM_PLAYERS,
+    maxPlayers = DEFAULT_MAX_PLAYERS,
+  } = gameState;
+  useEffect(() => {
+    if (!inRoom || !isHost || selectedCategories.length === 0) return;
+
+    socketService.updateRoomSettings(
+      getGameConfig(useGameStore.getState().gameState, locale),
+      response => {
+        if (!response.success) {
+          toast.error(response.error || t("failedToUpdateSettings"));
+        }
+      },
+    );
+  }, [
+    inRoom,
+    isHost,
+    locale,
+    selectedCategories,
+    difficulty,
+    impostorCount,
+    showHintsToImpostors,
+    minPlayers,
+    maxPlayers,
     t,
   ]);
 
@@ -198,23 +249,63 @@ export function MultiplayerLobby({
     }
 
     setIsLoading(true);
-    socketService.joinRoom(roomCode.toUpperCase(), playerName, response => {
-      setIsLoading(false);
-      if (response.success && response.playerId) {
-        setRoomData(
-          roomCode.toUpperCase(),
-          response.playerId,
-          response.room!.hostId,
-          false,
-        );
-        setPlayers(response.room!.players);
-        updatePlayers(response.room!.players);
-        toast.success(t("joinedSuccessfully"));
-      } else {
-        toast.error(response.error || t("failedToJoin"));
-      }
-    });
-  }, [playerName, roomCode, setRoomData, updatePlayers, t]);
+    socketService.joinRoom(
+      roomCode.toUpperCase(),
+      playerName,
+      password.trim() || undefined,
+      response => {
+        setIsLoading(false);
+        if (response.success && response.playerId) {
+          setRoomData(
+            roomCode.toUpperCase(),
+            response.playerId,
+            response.room!.hostId,
+            false,
+          );
+          setPlayers(response.room!.players);
+          updatePlayers(response.room!.players);
+          if (response.room!.gameState.gameStarted) {
+            // Joined mid-game: watch the current round until the next restart
+            updateGameStateFromServer(response.room!.gameState);
+            toast.success(t("joinedAsSpectator"));
+          } else {
+            // Show the settings the host has picked so far
+            const { isPublic, hasPassword, locked } = response.room!.gameState;
+            updateGameStateFromServer({
+              ...getGameConfig(response.room!.gameState, locale),
+              isPublic,
+              hasPassword,
+              locked,
+            });
+            toast.success(t("joinedSuccessfully"));
+          }
+        } else {
+          toast.error(response.error || t("failedToJoin"));
+        }
+      },
+    );
+  }, [
+    playerName,
+    roomCode,
+    password,
+    setRoomData,
+    updatePlayers,
+    updateGameStateFromServer,
+    locale,
+    t,
+  ]);
+
+  // Why the host can't start yet; the server checks the same
+  const playingCount = players.filter(p => !p.isSpectator).length;
+  const startBlocker = getStartBlocker(playingCount, impostorCount, minPlayers);
+  const startBlockedReason = !startBlocker
+    ? null
+    : startBlocker.reason === "notEnoughPlayers"
+      ? t("needMinPlayers", { min: startBlocker.minPlayers })
+      : t("tooManyImpostors", {
+          count: playingCount,
+          impostors: impostorCount,
+        });
 
   const handleStartGame = useCallback(() => {
     if (!isHost) {
@@ -222,14 +313,13 @@ export function MultiplayerLobby({
       return;
     }
 
-    const minPlayers = 3;
-    if (players.length < minPlayers) {
-      toast.error(t("needMinPlayers", { min: minPlayers }));
+    if (startBlockedReason) {
+      toast.error(startBlockedReason);
       return;
     }
 
     onStartGame();
-  }, [isHost, players.length, onStartGame, t]);
+  }, [isHost, startBlockedReason, onStartGame, t]);
 
   const handleLeaveRoom = useCallback(() => {
     socketService.leaveRoom(response => {
@@ -242,6 +332,48 @@ export function MultiplayerLobby({
     });
   }, [clearRoomData, onBack, t]);
 
+  const handleMatched = useCallback(
+    (data: RoomEntryData) => {
+      const isMatchHost = data.playerId === data.room.hostId;
+      setRoomData(data.roomCode, data.playerId, data.room.hostId, isMatchHost);
+      setPlayers(data.room.players);
+      updatePlayers(data.room.players);
+
+      // A matched host brings their own settings, everyone else takes the
+      // room's. The room size is the one the players queued for.
+      const { isPublic, hasPassword, locked } = data.room.gameState;
+      const roomConfig = getGameConfig(data.room.gameState, locale);
+      updateGameStateFromServer({
+        ...(isMatchHost
+          ? {
+              minPlayers: roomConfig.minPlayers,
+              maxPlayers: roomConfig.maxPlayers,
+            }
+          : roomConfig),
+        isPublic,
+        hasPassword,
+        locked,
+      });
+      toast.success(t("matchFound"));
+    },
+    [setRoomData, updatePlayers, updateGameStateFromServer, locale, t],
+  );
+
+  const handleSelectPublicRoom = useCallback((room: PublicRoomSummary) => {
+    setRoomCode(room.code);
+    setPassword("");
+    setMode("join");
+  }, []);
+
+  const handleHostAction = useCallback(
+    (response: { success: boolean; error?: string }) => {
+      if (!response.success) {
+        toast.error(response.error || t("hostActionFailed"));
+      }
+    },
+    [t],
+  );
+
   const copyRoomCode = useCallback(() => {
     const code = gameState.roomCode || roomCode;
     navigator.clipboard.writeText(code);
@@ -275,24 +407,52 @@ export function MultiplayerLobby({
               <p className="text-muted-foreground">
                 {isHost ? t("youAreHost") : t("waitingForHost")}
               </p>
+              <p className="text-muted-foreground mt-1 text-sm">
+                {gameState.isPublic ? t("publicBadge") : t("privateBadge")}
+                {gameState.hasPassword && ` · ${t("passwordProtected")}`}
+              </p>
+              {gameState.locked && (
+                <p className="text-muted-foreground mt-1 flex items-center gap-1 text-sm">
+                  <Lock className="h-3 w-3" />
+                  {t("roomLocked")}
+                </p>
+              )}
             </div>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={copyRoomCode}
-              title={t("copyRoomCode")}
-            >
-              {copied ? (
-                <Check className="h-4 w-4" />
-              ) : (
-                <Copy className="h-4 w-4" />
+            <div className="flex gap-2">
+              {isHost && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() =>
+                    socketService.lockRoom(!gameState.locked, handleHostAction)
+                  }
+                  title={gameState.locked ? t("unlockRoom") : t("lockRoom")}
+                >
+                  {gameState.locked ? (
+                    <Lock className="h-4 w-4" />
+                  ) : (
+                    <LockOpen className="h-4 w-4" />
+                  )}
+                </Button>
               )}
-            </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={copyRoomCode}
+                title={t("copyRoomCode")}
+              >
+                {copied ? (
+                  <Check className="h-4 w-4" />
+                ) : (
+                  <Copy className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
           </div>
 
           <div className="mb-6">
             <h3 className="mb-4 text-xl font-semibold">
-              {t("players")} ({players.length}/{gameState.totalPlayers || 10})
+              {t("players")} ({players.length}/{maxPlayers})
             </h3>
             <div className="space-y-2">
               {players.map(player => (
@@ -313,29 +473,93 @@ export function MultiplayerLobby({
                         {t("you")}
                       </span>
                     )}
+                    {player.isSpectator && (
+                      <span className="bg-secondary rounded px-2 py-0.5 text-xs">
+                        {t("spectator")}
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
+                    {isHost && player.id !== currentPlayerId && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            socketService.transferHost(
+                              player.id,
+                              handleHostAction,
+                            )
+                          }
+                          disabled={!player.isConnected}
+                          title={t("makeHost")}
+                        >
+                          <Crown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            socketService.kickPlayer(
+                              player.id,
+                              handleHostAction,
+                            )
+                          }
+                          title={t("kick")}
+                        >
+                          <UserX className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            socketService.banPlayer(player.id, handleHostAction)
+                          }
+                          title={t("ban")}
+                        >
+                          <Ban className="h-4 w-4 text-red-400" />
+                        </Button>
+                      </>
+                    )}
                     <Wifi
                       className={`h-4 w-4 ${player.isConnected ? "text-green-500" : "text-gray-400"}`}
                     />
                   </div>
                 </div>
               ))}
-              {gameState.totalPlayers &&
-                players.length < gameState.totalPlayers && (
-                  <div className="rounded-lg border border-dashed border-zinc-600 p-3 text-center">
-                    <p className="text-muted-foreground text-sm">
-                      {t("waitingForMorePlayers")}
-                    </p>
-                    <p className="text-muted-foreground mt-1 text-xs">
-                      {t("shareCode")}{" "}
-                      <span className="font-mono font-bold">{displayCode}</span>
-                    </p>
-                  </div>
-                )}
+              {players.length < maxPlayers ? (
+                <div className="rounded-lg border border-dashed border-zinc-600 p-3 text-center">
+                  <p className="text-muted-foreground text-sm">
+                    {t("waitingForMorePlayers")}
+                  </p>
+                  <p className="text-muted-foreground mt-1 text-xs">
+                    {t("shareCode")}{" "}
+                    <span className="font-mono font-bold">{displayCode}</span>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-muted-foreground p-3 text-center text-sm">
+                  {t("roomIsFull")}
+                </p>
+              )}
             </div>
           </div>
 
+          {/* Scores carry over between rounds in the same room */}
+          {players.some(p => p.score || p.wins) && (
+            <div className="mb-6">
+              <Scoreboard players={players} />
+            </div>
+          )}
+
+          <div className="mb-6">
+            <RoomSettings isHost={isHost} playerCount={players.length} />
+          </div>
+
+          <div className="mb-6">
+            <ChatPanel />
+          </div>
+
           <div className="flex gap-3">
             <Button
               variant="outline"
@@ -347,19 +571,29 @@ export function MultiplayerLobby({
             {isHost && (
               <Button
                 onClick={handleStartGame}
-                disabled={players.length < 3 || isGeneratingWord}
+                disabled={
+                  !!startBlocker ||
+                  gameState.selectedCategories.length === 0 ||
+                  isGeneratingWord
+                }
                 className="flex-1 cursor-pointer disabled:cursor-not-allowed"
               >
                 {isGeneratingWord
                   ? t("generatingWord") || "Generating..."
                   : t("startGame", {
                       count: players.length,
-                      total: gameState.totalPlayers || 10,
+                      total: maxPlayers,
                     })}
               </Button>
             )}
           </div>
 
+          {isHost && startBlockedReason && (
+            <p className="mt-4 text-center text-sm text-red-400">
+              {startBlockedReason}
+            </p>
+          )}
+
           {!isHost && (
             <p className="text-muted-foreground mt-4 text-center text-sm">
               {t("waitingForHostToStart")}
@@ -418,6 +652,21 @@ export function MultiplayerLobby({
                   className="mt-2"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="room-password" className="text-sm font-medium">
+                  {t("password")}
+                </Label>
+                <Input
+                  id="room-password"
+                  type="password"
+                  placeholder={t("passwordPlaceholder")}
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  maxLength={50}
+                  className="mt-2"
+                />
+              </div>
             </div>
 
             <div className="flex gap-3">
@@ -442,6 +691,36 @@ export function MultiplayerLobby({
     );
   }
 
+  if (mode === "queue") {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8">
+          <QuickMatch
+            onMatched={handleMatched}
+            onBack={() => setMode("select")}
+          />
+        </Card>
+      </div>
+    );
+  }
+
+  if (mode === "browse") {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md space-y-6 p-8">
+          <RoomBrowser onSelect={handleSelectPublicRoom} />
+          <Button
+            variant="outline"
+            onClick={() => setMode("select")}
+            className="w-full"
+          >
+            {t("back")}
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center p-4">
       <Card className="w-full max-w-md p-8">
@@ -452,6 +731,24 @@ export function MultiplayerLobby({
             {t("joinRoom")}
           </Button>
 
+          <Button
+            onClick={() => setMode("queue")}
+            variant="secondary"
+            className="w-full"
+            size="lg"
+          >
+            {t("quickMatch")}
+          </Button>
+
+          <Button
+            onClick={() => setMode("browse")}
+            variant="outline"
+            className="w-full"
+            size="lg"
+          >
+            {t("browseRooms")}
+          </Button>
+
           <Button onClick={onBack} variant="ghost" className="w-full" size="lg">
             {t("back")}
           </Button>
@@ -0,0 +1,108 @@
+import { Button } from "@/src/components/ui/button";
+import { socketService } from "@/src/lib/socket-service";
+import { useGameStore } from "@/src/stores/game-store";
+import { TimerAction } from "@/src/types/game";
+import { Pause, Play, Plus, SkipForward } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const EXTEND_SECONDS = 30;
+
+function formatTime(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+interface PhaseTimerProps {
+  canControl: boolean;
+}
+
+export default function PhaseTimer({ canControl }: PhaseTimerProps) {
+  const { gameState, pauseTimer, resumeTimer, extendTimer, skipTimer } =
+    useGameStore();
+  const t = useTranslations("PhaseTimer");
+  const timer = gameState.timer;
+  const [now, setNow] = useState(Date.now());
+
+  const isRunning = !!timer && !timer.paused && timer.endsAt !== undefined;
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!timer || timer.phase !== gameState.phase) return null;
+
+  const remainingMs =
+    isRunning && timer.endsAt !== undefined
+      ? Math.max(0, timer.endsAt - now)
+      : timer.remainingMs;
+  const isRunningOut = remainingMs <= 10000;
+
+  const handleAction = (action: TimerAction) => {
+    if (gameState.isMultiplayer) {
+      socketService.controlTimer(action, response => {
+        if (!response.success) {
+          toast.error(response.error || t("failedToUpdateTimer"));
+        }
+      });
+      return;
+    }
+
+    if (action === "pause") pauseTimer();
+    if (action === "resume") resumeTimer();
+    if (action === "extend") extendTimer(EXTEND_SECONDS);
+    if (action === "skip") skipTimer();
+  };
+
+  return (
+    <div className="space-y-3">
+      <p
+        className={`font-mono text-5xl font-bold tabular-nums ${
+          isRunningOut ? "text-red-500" : "text-white"
+        }`}
+      >
+        {formatTime(remainingMs)}
+      </p>
+      {timer.paused && <p className="text-sm text-zinc-500">{t("paused")}</p>}
+
+      {canControl && (
+        <div className="flex justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleAction(timer.paused ? "resume" : "pause")}
+          >
+            {timer.paused ? (
+              <Play className="mr-1 h-4 w-4" />
+            ) : (
+              <Pause className="mr-1 h-4 w-4" />
+            )}
+            {timer.paused ? t("resume") : t("pause")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleAction("extend")}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            {t("addTime", { seconds: EXTEND_SECONDS })}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleAction("skip")}
+          >
+            <SkipForward className="mr-1 h-4 w-4" />
+            {t("skip")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import {
+  DEFAULT_MAX_PLAYERS,
+  MAX_ROOM_PLAYERS,
+  MIN_ROOM_PLAYERS,
+} from "@/src/lib/room-limits";
+import { useGameStore } from "@/src/stores/game-store";
+
+interface PlayerLimitSelectProps {
+  limit: "min" | "max";
+  playerCount?: number; // Players already in the room, who can't be turned away
+  disabled?: boolean;
+  triggerClassName?: string;
+  contentClassName?: string;
+}
+
+export default function PlayerLimitSelect({
+  limit,
+  playerCount = 0,
+  disabled,
+  triggerClassName,
+  contentClassName,
+}: PlayerLimitSelectProps) {
+  const { gameState, setMinPlayers, setMaxPlayers } = useGameStore();
+
+  const value =
+    limit === "min"
+      ? (gameState.minPlayers ?? MIN_ROOM_PLAYERS)
+      : (gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS);
+  const setValue = limit === "min" ? setMinPlayers : setMaxPlayers;
+  const lowest =
+    limit === "min"
+      ? MIN_ROOM_PLAYERS
+      : Math.max(MIN_ROOM_PLAYERS, playerCount);
+
+  return (
+    <Select
+      value={value.toString()}
+      onValueChange={newValue => setValue(Number(newValue))}
+      disabled={disabled}
+    >
+      <SelectTrigger className={`w-full ${triggerClassName}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className={` ${contentClassName}`}>
+        {Array.from(
+          { length: MAX_ROOM_PLAYERS - lowest + 1 },
+          (_, i) => i + lowest,
+        ).map(num => (
+          <SelectItem key={num} value={num.toString()}>
+            {num}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
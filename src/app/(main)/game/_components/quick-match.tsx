@@ -0,0 +1,145 @@
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { Locale } from "@/src/config/language";
+import { socketService } from "@/src/lib/socket-service";
+import type { RoomEntryData } from "@/src/types/game";
+import { Loader2 } from "lucide-react";
+import { useLocale, useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const ROOM_SIZES = [3, 4, 5, 6, 7, 8, 9, 10];
+
+interface QuickMatchProps {
+  onMatched: (data: RoomEntryData) => void;
+  onBack: () => void;
+}
+
+// Waits in the server's queue until it puts us in a room
+export default function QuickMatch({ onMatched, onBack }: QuickMatchProps) {
+  const t = useTranslations("MultiplayerLobby");
+  const locale = useLocale() as Locale;
+  const [playerName, setPlayerName] = useState("");
+  const [preferredPlayers, setPreferredPlayers] = useState(5);
+  const [isQueued, setIsQueued] = useState(false);
+  const [waiting, setWaiting] = useState(0);
+
+  useEffect(() => {
+    const handleMatchFound = (data: RoomEntryData) => {
+      setIsQueued(false);
+      onMatched(data);
+    };
+
+    socketService.onMatchFound(handleMatchFound);
+    return () => {
+      socketService.removeListener("match-found", handleMatchFound);
+    };
+  }, [onMatched]);
+
+  // Don't stay queued for a room nobody is looking at
+  useEffect(() => {
+    if (!isQueued) return;
+    return () => socketService.leaveQueue();
+  }, [isQueued]);
+
+  const handleFindMatch = () => {
+    socketService.joinQueue(
+      { playerName: playerName.trim(), language: locale, preferredPlayers },
+      response => {
+        if (response.success) {
+          setIsQueued(true);
+          setWaiting(response.waiting ?? 1);
+        } else {
+          toast.error(response.error || t("failedToJoinQueue"));
+        }
+      },
+    );
+  };
+
+  if (isQueued) {
+    return (
+      <div className="space-y-6 text-center">
+        <Loader2 className="text-muted-foreground mx-auto h-10 w-10 animate-spin" />
+        <div>
+          <h2 className="text-2xl font-bold">{t("lookingForPlayers")}</h2>
+          <p className="text-muted-foreground mt-2 text-sm">
+            {t("queueStatus", { waiting, total: preferredPlayers })}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setIsQueued(false)}
+          className="w-full"
+        >
+          {t("cancel")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">{t("quickMatch")}</h2>
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="match-name" className="text-sm font-medium">
+            {t("yourName")}
+          </Label>
+          <Input
+            id="match-name"
+            placeholder={t("enterYourName")}
+            value={playerName}
+            onChange={e => setPlayerName(e.target.value)}
+            maxLength={20}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <Label className="text-sm font-medium">{t("preferredPlayers")}</Label>
+          <Select
+            value={preferredPlayers.toString()}
+            onValueChange={value => setPreferredPlayers(Number(value))}
+          >
+            <SelectTrigger className="mt-2 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROOM_SIZES.map(size => (
+                <SelectItem key={size} value={size.toString()}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-muted-foreground text-xs">
+          {t("quickMatchLanguage", { language: locale.toUpperCase() })}
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          {t("back")}
+        </Button>
+        <Button
+          onClick={handleFindMatch}
+          disabled={!playerName.trim()}
+          className="flex-1"
+        >
+          {t("findMatch")}
+        </Button>
+      </div>
+    </div>
+  );
+}
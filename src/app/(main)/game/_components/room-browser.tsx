@@ -0,0 +1,99 @@
+import { Button } from "@/src/components/ui/button";
+import { socketService } from "@/src/lib/socket-service";
+import type { PublicRoomSummary } from "@/src/types/game";
+import { Lock, RefreshCw, Users } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface RoomBrowserProps {
+  onSelect: (room: PublicRoomSummary) => void;
+}
+
+// Public rooms strangers can join
+export default function RoomBrowser({ onSelect }: RoomBrowserProps) {
+  const t = useTranslations("MultiplayerLobby");
+  const [rooms, setRooms] = useState<PublicRoomSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadRooms = useCallback(() => {
+    setIsLoading(true);
+    socketService.listPublicRooms(response => {
+      setIsLoading(false);
+      if (response.success && response.rooms) {
+        setRooms(response.rooms);
+      } else {
+        toast.error(response.error || t("failedToLoadRooms"));
+      }
+    });
+  }, [t]);
+
+  useEffect(() => {
+    loadRooms();
+  }, [loadRooms]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t("publicRooms")}</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={loadRooms}
+          disabled={isLoading}
+          title={t("refresh")}
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {rooms.length === 0 ? (
+        <p className="text-muted-foreground py-4 text-center text-sm">
+          {t("noPublicRooms")}
+        </p>
+      ) : (
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {rooms.map(room => (
+            <div
+              key={room.code}
+              className="flex items-center justify-between rounded-lg border p-3"
+            >
+              <div className="space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <span className="font-mono">{room.code}</span>
+                  <span className="text-muted-foreground text-sm">
+                    {room.hostName}
+                  </span>
+                  {room.hasPassword && (
+                    <Lock
+                      className="text-muted-foreground h-3 w-3"
+                      aria-label={t("passwordProtected")}
+                    />
+                  )}
+                </p>
+                <p className="text-muted-foreground flex items-center gap-2 text-xs">
+                  <Users className="h-3 w-3" />
+                  {t("roomPlayers", {
+                    count: room.playerCount,
+                    max: room.maxPlayers,
+                  })}
+                  {room.language && (
+                    <span>· {room.language.toUpperCase()}</span>
+                  )}
+                  <span>· {room.gameStarted ? t("inGame") : t("inLobby")}</span>
+                </p>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => onSelect(room)}
+                disabled={room.playerCount >= room.maxPlayers}
+              >
+                {room.playerCount >= room.maxPlayers ? t("full") : t("join")}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import PlayerLimitSelect from "./player-limit-select";
+import { Button } from "@/src/components/ui/button";
+import { Checkbox } from "@/src/components/ui/checkbox";
+import { Label } from "@/src/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { DEFAULT_MAX_PLAYERS, getMaxImpostors } from "@/src/lib/room-limits";
+import { useGameStore } from "@/src/stores/game-store";
+import type { Difficulty } from "@/src/types/game";
+import { useTranslations } from "next-intl";
+
+const DEFAULT_CATEGORIES = [
+  "animals",
+  "food",
+  "objects",
+  "movies",
+  "places",
+  "professions",
+];
+
+interface RoomSettingsProps {
+  isHost: boolean;
+  playerCount: number;
+}
+
+// The room's settings as the server has them; only the host can change them
+export default function RoomSettings({
+  isHost,
+  playerCount,
+}: RoomSettingsProps) {
+  const {
+    gameState,
+    customCategories,
+    setDifficulty,
+    setImpostorCount,
+    toggleCategory,
+    toggleHints,
+  } = useGameStore();
+  const t = useTranslations("SetupPhase");
+  const tSetup = useTranslations("MultiplayerSetup");
+
+  const categoryLabels: Record<string, string> = {
+    animals: `🐾 ${t("animals")}`,
+    food: `🍕 ${t("food")}`,
+    objects: `📱 ${t("objects")}`,
+    movies: `🎬 ${t("movies")}`,
+    places: `🌍 ${t("places")}`,
+    professions: `💼 ${t("professions")}`,
+  };
+  // Guests only see what the host picked
+  const categories = isHost
+    ? [...DEFAULT_CATEGORIES, ...customCategories]
+    : gameState.selectedCategories;
+  const maxImpostors = Math.max(
+    gameState.impostorCount,
+    getMaxImpostors(gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS),
+  );
+
+  return (
+    <div className="space-y-4 rounded-xl border border-zinc-700 bg-zinc-900/50 p-4">
+      <p className="text-sm font-semibold text-zinc-400">{t("gameSettings")}</p>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-zinc-300">
+            {tSetup("minimumPlayers")}
+          </Label>
+          <PlayerLimitSelect limit="min" disabled={!isHost} />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-zinc-300">
+            {tSetup("maximumPlayers")}
+          </Label>
+          <PlayerLimitSelect
+            limit="max"
+            playerCount={playerCount}
+            disabled={!isHost}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-zinc-300">
+            🎭 {tSetup("impostors")}
+          </Label>
+          <Select
+            value={gameState.impostorCount.toString()}
+            onValueChange={value => setImpostorCount(Number(value))}
+            disabled={!isHost}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: maxImpostors }, (_, i) => i + 1).map(
+                num => (
+                  <SelectItem key={num} value={num.toString()}>
+                    {num}{" "}
+                    {num > 1 ? tSetup("impostorPlural") : tSetup("impostor")}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-zinc-300">
+            ⚡ {t("difficulty")}
+          </Label>
+          <Select
+            value={gameState.difficulty}
+            onValueChange={value => setDifficulty(value as Difficulty)}
+            disabled={!isHost}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(["easy", "medium", "hard"] as const).map(difficulty => (
+                <SelectItem key={difficulty} value={difficulty}>
+                  {t(difficulty)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Checkbox
+          id="room-hints"
+          checked={gameState.showHintsToImpostors}
+          onCheckedChange={toggleHints}
+          disabled={!isHost}
+          className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+        />
+        <Label htmlFor="room-hints" className="text-sm text-zinc-300">
+          {t("showHints")}
+        </Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-zinc-300">
+          {t("categories")}
+        </Label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(category => (
+            <Button
+              key={category}
+              size="sm"
+              variant={
+                gameState.selectedCategories.includes(category)
+                  ? "default"
+                  : "outline"
+              }
+              onClick={() => toggleCategory(category)}
+              disabled={!isHost}
+              className="disabled:opacity-100"
+            >
+              {categoryLabels[category] ?? category}
+            </Button>
+          ))}
+        </div>
+        {isHost && gameState.selectedCategories.length === 0 && (
+          <p className="text-sm text-red-400">{t("selectCategory")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { Player } from "@/src/types/game";
+import { Trophy } from "lucide-react";
+import { useTranslations } from "next-intl";
+
+interface ScoreboardProps {
+  players: Player[];
+}
+
+export default function Scoreboard({ players }: ScoreboardProps) {
+  const t = useTranslations("Scoreboard");
+
+  // Sort players by score, then by wins (descending)
+  const rankedPlayers = [...players].sort(
+    (a, b) => (b.score || 0) - (a.score || 0) || (b.wins || 0) - (a.wins || 0),
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center justify-center gap-2 tracking-wider text-zinc-500 uppercase">
+        <Trophy className="h-5 w-5" />
+        {t("scoreboard")}
+      </p>
+      <div className="space-y-2">
+        {rankedPlayers.map((player, index) => (
+          <div
+            key={player.id}
+            className={`rounded-xl border p-3 ${
+              index === 0
+                ? "border-yellow-600/30 bg-yellow-600/10"
+                : "border-zinc-700/50 bg-zinc-800/50"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className="text-2xl font-bold text-zinc-600">
+                  #{index + 1}
+                </span>
+                <span className="text-lg">{player.name}</span>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-lg font-medium">
+                  {t("points", { count: player.score || 0 })}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Trophy
+                    className={`h-5 w-5 ${
+                      index === 0 ? "text-yellow-400" : "text-zinc-600"
+                    }`}
+                  />
+                  <span className="text-lg font-medium">
+                    {player.wins || 0}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Input } from "@/src/components/ui/input";
+import { Label } from "@/src/components/ui/label";
+import {
+  DEFAULT_SCORING_RULES,
+  MAX_GUESS_MULTIPLIER,
+  MAX_RULE_POINTS,
+} from "@/src/lib/scoring";
+import { useGameStore } from "@/src/stores/game-store";
+import type { ScoringRules } from "@/src/types/game";
+import { useTranslations } from "next-intl";
+
+const RULES: { key: keyof ScoringRules; min: number; max: number }[] = [
+  { key: "winPoints", min: 0, max: MAX_RULE_POINTS },
+  { key: "correctVotePoints", min: 0, max: MAX_RULE_POINTS },
+  { key: "wrongVotePenalty", min: 0, max: MAX_RULE_POINTS },
+  { key: "impostorSurvivalBonus", min: 0, max: MAX_RULE_POINTS },
+  { key: "guessMultiplier", min: 1, max: MAX_GUESS_MULTIPLIER },
+];
+
+export default function ScoringSettings() {
+  const { gameState, setScoringRules } = useGameStore();
+  const t = useTranslations("ScoringSettings");
+  const rules = gameState.scoringRules ?? DEFAULT_SCORING_RULES;
+
+  const handleChange = (
+    key: keyof ScoringRules,
+    value: string,
+    min: number,
+    max: number,
+  ) => {
+    const number = Number(value);
+    if (value === "" || Number.isNaN(number)) return;
+    setScoringRules({
+      ...rules,
+      [key]: Math.min(Math.max(Math.floor(number), min), max),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      {RULES.map(({ key, min, max }) => (
+        <div key={key} className="space-y-2">
+          <Label
+            htmlFor={`scoring-${key}`}
+            className="text-sm font-medium text-zinc-300"
+          >
+            {t(key)}
+          </Label>
+          <Input
+            id={`scoring-${key}`}
+            type="number"
+            min={min}
+            max={max}
+            value={rules[key]}
+            onChange={e => handleChange(key, e.target.value, min, max)}
+            className="border-zinc-700 bg-zinc-800/50 text-white"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
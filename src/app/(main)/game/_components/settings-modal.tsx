@@ -1,4 +1,6 @@
 import LanguageSelector from "./language-selector";
+import ScoringSettings from "./scoring-settings";
+import TimerDurationSelect from "./timer-duration-select";
 import {
   Dialog,
   DialogContent,
@@ -75,6 +77,17 @@ export default function SettingsModal() {
               ))}
             </SelectContent>
           </Select>
+          <Label className="text-lg font-semibold text-white">
+            {t("discussionTime")}
+          </Label>
+          <TimerDurationSelect
+            phase="discussion"
+            triggerClassName="h-14 rounded-2xl"
+          />
+          <Label className="text-lg font-semibold text-white">
+            {t("scoring")}
+          </Label>
+          <ScoringSettings />
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,29 @@
+import { Badge } from "@/src/components/ui/badge";
+import { Separator } from "@/src/components/ui/separator";
+import type { SpecialRole } from "@/src/types/game";
+import { useTranslations } from "next-intl";
+
+interface SpecialRoleInfoProps {
+  specialRole?: SpecialRole;
+}
+
+// The special role on a player's card, with what it asks of them
+export default function SpecialRoleInfo({ specialRole }: SpecialRoleInfoProps) {
+  const t = useTranslations("SpecialRoles");
+
+  if (!specialRole) return null;
+
+  return (
+    <div className="space-y-3">
+      <Separator className="bg-zinc-700" />
+      <div className="space-y-2">
+        <Badge className="border-amber-600/30 bg-amber-600/20 text-amber-300">
+          {t(specialRole)}
+        </Badge>
+        <p className="text-sm text-zinc-400">
+          {t(`${specialRole}Description`)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Checkbox } from "@/src/components/ui/checkbox";
+import { Label } from "@/src/components/ui/label";
+import { SPECIAL_ROLES } from "@/src/lib/roles";
+import { useGameStore } from "@/src/stores/game-store";
+import { useTranslations } from "next-intl";
+
+export default function SpecialRoleSettings() {
+  const { gameState, toggleSpecialRole } = useGameStore();
+  const t = useTranslations("SpecialRoles");
+  const enabled = gameState.specialRoles ?? [];
+
+  return (
+    <div className="space-y-2">
+      {SPECIAL_ROLES.map(role => (
+        <div
+          key={role}
+          className="flex items-center space-x-3 rounded-lg bg-zinc-800/30 p-3"
+        >
+          <Checkbox
+            id={`special-role-${role}`}
+            checked={enabled.includes(role)}
+            onCheckedChange={() => toggleSpecialRole(role)}
+            className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+          />
+          <Label
+            htmlFor={`special-role-${role}`}
+            className="cursor-pointer flex-col items-start gap-1 text-sm text-zinc-300"
+          >
+            <span className="font-medium">{t(role)}</span>
+            <span className="text-xs text-zinc-500">
+              {t(`${role}Description`)}
+            </span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/src/components/ui/select";
+import { useGameStore } from "@/src/stores/game-store";
+import { useTranslations } from "next-intl";
+
+// Time limits in seconds for each timed phase, 0 means no limit
+const DURATIONS = {
+  discussion: [0, 60, 120, 180, 300],
+  voting: [0, 30, 60, 90, 120],
+};
+
+interface TimerDurationSelectProps {
+  phase: keyof typeof DURATIONS;
+  triggerClassName?: string;
+  contentClassName?: string;
+}
+
+export default function TimerDurationSelect({
+  phase,
+  triggerClassName,
+  contentClassName,
+}: TimerDurationSelectProps) {
+  const { gameState, setDiscussionDuration, setVotingDuration } =
+    useGameStore();
+  const t = useTranslations("SetupPhase");
+
+  const value =
+    phase === "discussion"
+      ? gameState.discussionDuration
+      : gameState.votingDuration;
+  const setValue =
+    phase === "discussion" ? setDiscussionDuration : setVotingDuration;
+
+  return (
+    <Select
+      value={(value ?? 0).toString()}
+      onValueChange={newValue => setValue(Number(newValue))}
+    >
+      <SelectTrigger className={`w-full ${triggerClassName}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className={` ${contentClassName}`}>
+        {DURATIONS[phase].map(seconds => (
+          <SelectItem key={seconds} value={seconds.toString()}>
+            {seconds === 0
+              ? t("noTimeLimit")
+              : seconds % 60 === 0
+                ? t("minutes", { count: seconds / 60 })
+                : t("seconds", { count: seconds })}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,140 @@
+import ClueList from "../_components/clue-list";
+import PhaseTimer from "../_components/phase-timer";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { socketService } from "@/src/lib/socket-service";
+import { useGameStore } from "@/src/stores/game-store";
+import { Lightbulb } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const MAX_CLUE_LENGTH = 30;
+
+// Multiplayer only: every player gives a one-word clue in turn before the
+// discussion starts
+export default function CluePhase() {
+  const { gameState, currentPlayerId } = useGameStore();
+  const t = useTranslations("CluePhase");
+  const [clue, setClue] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isHost = currentPlayerId === gameState.hostId;
+  const turnOrder = (gameState.clueTurnOrder || []).map(id =>
+    gameState.players.find(p => p.id === id),
+  );
+  const turnIndex = gameState.clueTurnIndex ?? 0;
+  const currentTurn = turnOrder[turnIndex];
+  const isMyTurn = !!currentTurn && currentTurn.id === currentPlayerId;
+  const roundClues = (gameState.clues || []).filter(
+    c => c.voteRound === (gameState.voteRound ?? 1),
+  );
+  const earlierClues = (gameState.clues || []).filter(
+    c => c.voteRound !== (gameState.voteRound ?? 1),
+  );
+
+  const handleSubmitClue = () => {
+    const text = clue.trim();
+    if (!text) return;
+
+    if (/\s/.test(text)) {
+      toast.error(t("oneWordOnly"));
+      return;
+    }
+
+    setIsSubmitting(true);
+    socketService.submitClue(text, response => {
+      setIsSubmitting(false);
+      if (response.success) {
+        setClue("");
+      } else {
+        toast.error(response.error || t("failedToSubmitClue"));
+      }
+    });
+  };
+
+  return (
+    <div className="flex min-h-dvh items-center justify-center p-6">
+      <div className="mx-auto w-full max-w-sm space-y-8 text-center">
+        <div className="space-y-4">
+          <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-purple-500">
+            <Lightbulb className="h-10 w-10 text-white" />
+          </div>
+
+          <h1 className="text-4xl font-bold text-purple-400">
+            {t("clueRound")}
+          </h1>
+
+          <p className="text-xl text-gray-300">
+            {isMyTurn
+              ? t("yourTurn")
+              : t("playerTurn", { name: currentTurn?.name ?? "" })}
+          </p>
+
+          <PhaseTimer canControl={isHost} />
+        </div>
+
+        <div className="space-y-2">
+          {turnOrder.map((player, index) => {
+            if (!player) return null;
+            const given = roundClues.find(c => c.playerId === player.id);
+
+            return (
+              <div
+                key={player.id}
+                className={`flex items-center justify-between rounded-xl border p-3 ${
+                  index === turnIndex
+                    ? "border-purple-500 bg-purple-500/10"
+                    : "border-zinc-700/50 bg-zinc-800/50"
+                }`}
+              >
+                <span
+                  className={
+                    player.id === currentPlayerId
+                      ? "font-semibold text-purple-400"
+                      : "text-gray-300"
+                  }
+                >
+                  {player.name}
+                </span>
+                {given &&
+                  (given.text ? (
+                    <span className="font-semibold text-white">
+                      {given.text}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-zinc-500 italic">
+                      {t("noClue")}
+                    </span>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {isMyTurn && (
+          <div className="space-y-3">
+            <Input
+              placeholder={t("cluePlaceholder")}
+              value={clue}
+              onChange={e => setClue(e.target.value)}
+              onKeyDown={e => e.key === "Enter" && handleSubmitClue()}
+              maxLength={MAX_CLUE_LENGTH}
+              className="border-zinc-700 bg-zinc-800/50 py-6 text-center text-lg text-white"
+            />
+            <Button
+              onClick={handleSubmitClue}
+              disabled={!clue.trim() || isSubmitting}
+              className="w-full rounded-xl bg-purple-600 py-6 text-lg font-medium text-white transition-all duration-200 hover:bg-purple-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {t("submitClue")}
+            </Button>
+            <p className="text-xs text-zinc-500">{t("clueRules")}</p>
+          </div>
+        )}
+
+        <ClueList clues={earlierClues} />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
+import ChatPanel from "../_components/chat-panel";
+import ClueList from "../_components/clue-list";
+import DetectivePanel from "../_components/detective-panel";
+import EjectedPlayers from "../_components/ejected-players";
+import PhaseTimer from "../_components/phase-timer";
 import { Button } from "@/src/components/ui/button";
 import { useSound } from "@/src/hooks/use-sound";
+import { isPlaying } from "@/src/lib/players";
+import { ROLE_DEFINITIONS } from "@/src/lib/roles";
 import { socketService } from "@/src/lib/socket-service";
 import { useGameStore } from "@/src/stores/game-store";
+import type { PlayerConnectedData } from "@/src/types/game";
 import { Eye, Play } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useCallback, useEffect } from "react";
@@ -12,7 +20,7 @@ export default function DiscussionPhase() {
     gameState,
     startVoting,
     currentPlayerId,
-    setCurrentPlayerId,
+    privateData,
     updatePlayers,
   } = useGameStore();
   const t = useTranslations("DiscussionPhase");
@@ -36,36 +44,32 @@ export default function DiscussionPhase() {
     );
   }
 
+  // Ejected players and spectators watch the round without speaking
+  const alivePlayers = gameState.players.filter(isPlaying);
+  const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
+
   // Fallback: randomly select if not found (for local mode or backwards compatibility)
   if (!startPlayer) {
-    const startPlayerIndex = Math.floor(
-      Math.random() * gameState.players.length,
-    );
-    startPlayer = gameState.players[startPlayerIndex];
+    const startPlayerIndex = Math.floor(Math.random() * alivePlayers.length);
+    startPlayer = alivePlayers[startPlayerIndex];
     console.log("Starting player randomly selected:", startPlayer.name);
   }
 
   const isHost = currentPlayerId === gameState.hostId;
+  // Detectives get a new check after every vote of an elimination game
+  const canInvestigate =
+    isMultiplayer &&
+    !!currentPlayer &&
+    isPlaying(currentPlayer) &&
+    !!privateData?.specialRole &&
+    !!ROLE_DEFINITIONS[privateData.specialRole].canInvestigate;
 
   useEffect(() => {
     playImpostorSound();
 
     // Listen for player reconnection
-    const handlePlayerRejoined = (data: {
-      oldPlayerId: string;
-      newPlayerId: string;
-      playerName: string;
-      players: unknown[];
-    }) => {
-      // If the rejoined player is the current player, update currentPlayerId
-      if (currentPlayerId === data.oldPlayerId) {
-        console.log(
-          "Updating currentPlayerId in discussion phase:",
-          data.newPlayerId,
-        );
-        setCurrentPlayerId(data.newPlayerId);
-      }
-      updatePlayers(data.players as typeof gameState.players);
+    const handlePlayerRejoined = (data: PlayerConnectedData) => {
+      updatePlayers(data.players);
     };
 
     socketService.getSocket().on("player-rejoined", handlePlayerRejoined);
@@ -73,8 +77,7 @@ export default function DiscussionPhase() {
     return () => {
       socketService.getSocket().off("player-rejoined", handlePlayerRejoined);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [playImpostorSound, currentPlayerId, setCurrentPlayerId, updatePlayers]);
+  }, [playImpostorSound, updatePlayers]);
 
   const handleStartVoting = useCallback(() => {
     if (isMultiplayer) {
@@ -98,7 +101,11 @@ export default function DiscussionPhase() {
       <div className="mx-auto max-w-sm space-y-16 text-center">
         <div className="space-y-6">
           <p className="text-2xl leading-relaxed text-gray-400">
-            {t("sayYourWords")}
+            {currentPlayer?.isSpectator
+              ? t("spectatingUntilNextRound")
+              : currentPlayer?.isAlive === false
+                ? t("spectating")
+                : t("sayYourWords")}
           </p>
           <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-green-500">
             <Play className="h-10 w-10 fill-white text-white" />
@@ -110,8 +117,17 @@ export default function DiscussionPhase() {
             </h1>
             <p className="text-xl text-gray-300">{t("starts")}</p>
           </div>
+
+          <PhaseTimer canControl={!isMultiplayer || isHost} />
         </div>
 
+        <EjectedPlayers ejections={gameState.ejections ?? []} />
+        <ClueList clues={gameState.clues ?? []} />
+
+        {canInvestigate && <DetectivePanel detectiveId={currentPlayer.id} />}
+
+        {isMultiplayer && <ChatPanel />}
+
         <div className="space-y-3">
           <Button
             onClick={handleStartVoting}
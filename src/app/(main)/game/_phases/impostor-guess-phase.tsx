@@ -0,0 +1,125 @@
+import PhaseTimer from "../_components/phase-timer";
+import { Button } from "@/src/components/ui/button";
+import { Input } from "@/src/components/ui/input";
+import { socketService } from "@/src/lib/socket-service";
+import { useGameStore } from "@/src/stores/game-store";
+import { Target, X } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export default function ImpostorGuessPhase() {
+  const { gameState, currentPlayerId, privateData, submitImpostorGuess } =
+    useGameStore();
+  const t = useTranslations("ImpostorGuessPhase");
+  const [guess, setGuess] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isMultiplayer = gameState.isMultiplayer;
+  const isHost = currentPlayerId === gameState.hostId;
+  const caughtImpostors = gameState.players.filter(p =>
+    gameState.caughtImpostorIds?.includes(p.id),
+  );
+  const guesses = gameState.impostorGuesses || [];
+  const waitingImpostors = caughtImpostors.filter(
+    p => !guesses.some(g => g.playerId === p.id),
+  );
+
+  // Multiplayer: caught impostors guess on their own device. Undercover
+  // impostors were never told their role, so being caught is how they learn.
+  // Local mode: the device is passed to each caught impostor in turn
+  const guesser = isMultiplayer
+    ? waitingImpostors.find(
+        p =>
+          p.id === currentPlayerId &&
+          (privateData?.role === "impostor" || gameState.undercover),
+      )
+    : waitingImpostors[0];
+
+  const handleSubmitGuess = () => {
+    if (!guesser) return;
+
+    if (!guess.trim()) {
+      toast.error(t("enterGuess"));
+      return;
+    }
+
+    if (isMultiplayer) {
+      setIsSubmitting(true);
+      socketService.submitImpostorGuess(guess.trim(), response => {
+        setIsSubmitting(false);
+        if (!response.success) {
+          toast.error(response.error || t("failedToSubmitGuess"));
+        }
+      });
+    } else {
+      submitImpostorGuess(guesser.id, guess.trim());
+      setGuess("");
+    }
+  };
+
+  return (
+    <div className="flex h-dvh items-center justify-center p-6">
+      <div className="mx-auto w-full max-w-sm space-y-10 text-center">
+        <div className="space-y-4">
+          <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-red-500">
+            <Target className="h-10 w-10 text-white" />
+          </div>
+
+          <h1 className="text-4xl font-bold text-red-400">{t("caught")}</h1>
+
+          <p className="text-xl text-gray-300">
+            {t("lastChance", {
+              names: caughtImpostors.map(p => p.name).join(", "),
+            })}
+          </p>
+
+          {isMultiplayer && <PhaseTimer canControl={isHost} />}
+        </div>
+
+        {guesses.length > 0 && (
+          <div className="space-y-2">
+            {guesses.map(g => (
+              <div
+                key={g.playerId}
+                className="flex items-center justify-between rounded-xl border border-zinc-700/50 bg-zinc-800/50 p-3"
+              >
+                <span className="text-gray-300">
+                  {t("guessed", { name: g.playerName, guess: g.guess })}
+                </span>
+                <X className="h-5 w-5 text-red-400" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {guesser ? (
+          <div className="space-y-3">
+            {!isMultiplayer && (
+              <p className="text-sm text-zinc-500">
+                {t("passDeviceTo", { name: guesser.name })}
+              </p>
+            )}
+            <Input
+              placeholder={t("guessPlaceholder")}
+              value={guess}
+              onChange={e => setGuess(e.target.value)}
+              onKeyDown={e => e.key === "Enter" && handleSubmitGuess()}
+              maxLength={50}
+              className="border-zinc-700 bg-zinc-800/50 py-6 text-center text-lg text-white"
+            />
+            <Button
+              onClick={handleSubmitGuess}
+              disabled={!guess.trim() || isSubmitting}
+              className="w-full rounded-xl bg-red-600 py-6 text-lg font-medium text-white transition-all duration-200 hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {t("submitGuess")}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500">{t("waitingForGuess")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
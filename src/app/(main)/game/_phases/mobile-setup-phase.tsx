@@ -3,6 +3,7 @@
 import MobileCategorySelection from "../_components/mobile-category-selection";
 import MobilePlayerManagement from "../_components/mobile-player-management";
 import SettingsModal from "../_components/settings-modal";
+import SpecialRoleSettings from "../_components/special-role-settings";
 import { Button } from "@/src/components/ui/button";
 import { Card, CardContent } from "@/src/components/ui/card";
 import {
@@ -18,6 +19,7 @@ import { useGameStore } from "@/src/stores/game-store";
 import {
   ArrowLeft,
   ChevronRight,
+  Drama,
   Eye,
   Lightbulb,
   Play,
@@ -42,6 +44,7 @@ export default function MobileSetupPhase() {
     removeCustomCategory,
     setCustomCategory,
     toggleHints,
+    toggleUndercover,
     startGame,
   } = useGameStore();
 
@@ -259,6 +262,44 @@ export default function MobileSetupPhase() {
             </CardContent>
           </Card>
 
+          <Card className="rounded-3xl p-0">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div
+                    className={`flex h-12 w-12 items-center justify-center rounded-2xl ${
+                      gameState.undercover ? "bg-green-500" : "bg-gray-500"
+                    }`}
+                  >
+                    <Drama className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <div className="text-lg font-medium text-white">
+                      {t("undercoverShort")}
+                    </div>
+                    <div className="text-sm text-gray-400">
+                      {gameState.undercover ? t("enabled") : t("disabled")}
+                    </div>
+                  </div>
+                </div>
+                <Switch
+                  className="h-6 w-12"
+                  checked={!!gameState.undercover}
+                  onCheckedChange={toggleUndercover}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="rounded-3xl p-0">
+            <CardContent className="space-y-4 p-6">
+              <div className="text-lg font-medium text-white">
+                {t("specialRoles")}
+              </div>
+              <SpecialRoleSettings />
+            </CardContent>
+          </Card>
+
           <div className="pt-6">
             <Button
               onClick={handleStartGame}
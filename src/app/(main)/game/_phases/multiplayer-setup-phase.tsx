@@ -2,6 +2,10 @@
 
 import { IconBox } from "../_components/icon-box";
 import LanguageSelector from "../_components/language-selector";
+import PlayerLimitSelect from "../_components/player-limit-select";
+import ScoringSettings from "../_components/scoring-settings";
+import SpecialRoleSettings from "../_components/special-role-settings";
+import TimerDurationSelect from "../_components/timer-duration-select";
 import { Button } from "@/src/components/ui/button";
 import {
   Card,
@@ -21,15 +25,21 @@ import {
 } from "@/src/components/ui/select";
 import { Separator } from "@/src/components/ui/separator";
 import { setUserLocale } from "@/src/lib/locale";
+import { DEFAULT_MAX_PLAYERS, getMaxImpostors } from "@/src/lib/room-limits";
 import { useGameStore } from "@/src/stores/game-store";
-import { Difficulty } from "@/src/types/game";
-import { ArrowLeft, Plus, Settings, Tag, User, X } from "lucide-react";
+import { Difficulty, RoomAccessOptions, VotingMode } from "@/src/types/game";
+import { ArrowLeft, Lock, Plus, Settings, Tag, User, X } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useState } from "react";
 
+// 1 plays single rounds, anything more plays a match
+const MATCH_ROUNDS = [1, 3, 5, 7, 10];
+
+const VOTING_MODES: VotingMode[] = ["plurality", "majority", "elimination"];
+
 interface MultiplayerSetupPhaseProps {
   onBack: () => void;
-  onCreateRoom: (hostName: string) => void;
+  onCreateRoom: (hostName: string, access: RoomAccessOptions) => void;
 }
 
 export default function MultiplayerSetupPhase({
@@ -39,20 +49,32 @@ export default function MultiplayerSetupPhase({
   const {
     gameState,
     customCategories,
-    setPlayerCount,
     setImpostorCount,
     toggleCategory,
     addCustomCategory,
     removeCustomCategory,
     setCustomCategory,
     toggleHints,
+    toggleUndercover,
+    toggleImpostorTeam,
+    toggleClueRound,
     setDifficulty,
+    setMatchRounds,
+    setVotingMode,
   } = useGameStore();
 
   const [hostName, setHostName] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [password, setPassword] = useState("");
   const t = useTranslations("SetupPhase");
   const tSetup = useTranslations("MultiplayerSetup");
 
+  const votingModeTranslations: Record<VotingMode, string> = {
+    plurality: tSetup("votingModePlurality"),
+    majority: tSetup("votingModeMajority"),
+    elimination: tSetup("votingModeElimination"),
+  };
+
   const categoryTranslations = {
     animals: `🐾 ${t("animals")}`,
     food: `🍕 ${t("food")}`,
@@ -86,7 +108,7 @@ export default function MultiplayerSetupPhase({
     if (gameState.selectedCategories.length === 0) {
       return;
     }
-    onCreateRoom(hostName.trim());
+    onCreateRoom(hostName.trim(), { isPublic, password: password.trim() });
   };
 
   return (
@@ -135,34 +157,78 @@ export default function MultiplayerSetupPhase({
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-3 text-lg font-medium">
-              <IconBox icon={User} color="blue" />
-              {t("players")}
+              <IconBox icon={Lock} color="green" />
+              {tSetup("roomAccess")}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center gap-3">
-              <Label className="text-sm font-medium text-zinc-300">
-                {tSetup("maximumPlayers")}
+            <div className="flex items-center space-x-3 rounded-lg bg-zinc-800/30 p-3">
+              <Checkbox
+                id="public-room"
+                checked={isPublic}
+                onCheckedChange={checked => setIsPublic(checked === true)}
+                className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+              />
+              <Label
+                htmlFor="public-room"
+                className="cursor-pointer flex-col items-start gap-1 text-sm text-zinc-300"
+              >
+                <span className="font-medium">{tSetup("publicRoom")}</span>
+                <span className="text-xs text-zinc-500">
+                  {tSetup("publicRoomDescription")}
+                </span>
               </Label>
-              <Select
-                value={gameState.totalPlayers.toString()}
-                onValueChange={value => setPlayerCount(Number(value), t)}
+            </div>
+            <div>
+              <Label
+                htmlFor="room-password"
+                className="text-sm font-medium text-zinc-300"
               >
-                <SelectTrigger className="border-zinc-700 bg-zinc-800/50 text-white">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent className="border-zinc-700 bg-zinc-900">
-                  {Array.from({ length: 28 }, (_, i) => i + 3).map(num => (
-                    <SelectItem
-                      key={num}
-                      value={num.toString()}
-                      className="text-white focus:bg-zinc-800"
-                    >
-                      {num}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                {tSetup("roomPassword")}
+              </Label>
+              <Input
+                id="room-password"
+                type="password"
+                placeholder={tSetup("roomPasswordPlaceholder")}
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                maxLength={50}
+                autoComplete="new-password"
+                className="mt-2 border-zinc-700 bg-zinc-800/50 text-white"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-lg font-medium">
+              <IconBox icon={User} color="blue" />
+              {t("players")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="space-y-3">
+                <Label className="text-sm font-medium text-zinc-300">
+                  {tSetup("minimumPlayers")}
+                </Label>
+                <PlayerLimitSelect
+                  limit="min"
+                  triggerClassName="border-zinc-700 bg-zinc-800/50 text-white"
+                  contentClassName="border-zinc-700 bg-zinc-900"
+                />
+              </div>
+              <div className="space-y-3">
+                <Label className="text-sm font-medium text-zinc-300">
+                  {tSetup("maximumPlayers")}
+                </Label>
+                <PlayerLimitSelect
+                  limit="max"
+                  triggerClassName="border-zinc-700 bg-zinc-800/50 text-white"
+                  contentClassName="border-zinc-700 bg-zinc-900"
+                />
+              </div>
             </div>
             <p className="text-sm text-zinc-400">{tSetup("playersWillJoin")}</p>
           </CardContent>
@@ -177,7 +243,7 @@ export default function MultiplayerSetupPhase({
           </CardHeader>
 
           <CardContent className="space-y-6">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div className="space-y-3">
                 <Label className="text-sm font-medium text-zinc-300">
                   🎭 {tSetup("impostors")}
@@ -191,7 +257,11 @@ export default function MultiplayerSetupPhase({
                   </SelectTrigger>
                   <SelectContent>
                     {Array.from(
-                      { length: gameState.totalPlayers - 1 },
+                      {
+                        length: getMaxImpostors(
+                          gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS,
+                        ),
+                      },
                       (_, i) => i + 1,
                     ).map(num => (
                       <SelectItem key={num} value={num.toString()}>
@@ -235,6 +305,64 @@ export default function MultiplayerSetupPhase({
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center text-sm font-medium text-zinc-300">
+                  ⏱️ {t("discussionTime")}
+                </Label>
+                <TimerDurationSelect phase="discussion" />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center text-sm font-medium text-zinc-300">
+                  🗳️ {t("votingTime")}
+                </Label>
+                <TimerDurationSelect phase="voting" />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center text-sm font-medium text-zinc-300">
+                  🏆 {tSetup("matchRounds")}
+                </Label>
+                <Select
+                  value={(gameState.matchRounds ?? 1).toString()}
+                  onValueChange={value => setMatchRounds(Number(value))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MATCH_ROUNDS.map(rounds => (
+                      <SelectItem key={rounds} value={rounds.toString()}>
+                        {rounds === 1
+                          ? tSetup("singleRound")
+                          : tSetup("roundCount", { count: rounds })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center text-sm font-medium text-zinc-300">
+                  🗳️ {tSetup("votingMode")}
+                </Label>
+                <Select
+                  value={gameState.votingMode ?? "plurality"}
+                  onValueChange={value => setVotingMode(value as VotingMode)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOTING_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>
+                        {votingModeTranslations[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <Separator className="bg-zinc-700" />
@@ -255,6 +383,77 @@ export default function MultiplayerSetupPhase({
                 </Label>
               </div>
             </div>
+
+            <div className="flex items-center justify-between rounded-lg bg-zinc-800/30 p-3">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="undercover"
+                  checked={!!gameState.undercover}
+                  onCheckedChange={toggleUndercover}
+                  className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+                />
+                <Label
+                  htmlFor="undercover"
+                  className="cursor-pointer text-sm font-medium text-zinc-300"
+                >
+                  {t("undercover")}
+                </Label>
+              </div>
+            </div>
+
+            {gameState.impostorCount > 1 && !gameState.undercover && (
+              <div className="flex items-center justify-between rounded-lg bg-zinc-800/30 p-3">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="impostor-team"
+                    checked={!!gameState.impostorTeam}
+                    onCheckedChange={toggleImpostorTeam}
+                    className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+                  />
+                  <Label
+                    htmlFor="impostor-team"
+                    className="cursor-pointer text-sm font-medium text-zinc-300"
+                  >
+                    {tSetup("impostorTeam")}
+                  </Label>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between rounded-lg bg-zinc-800/30 p-3">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="clue-round"
+                  checked={!!gameState.clueRound}
+                  onCheckedChange={toggleClueRound}
+                  className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+                />
+                <Label
+                  htmlFor="clue-round"
+                  className="cursor-pointer text-sm font-medium text-zinc-300"
+                >
+                  {tSetup("clueRound")}
+                </Label>
+              </div>
+            </div>
+
+            <Separator className="bg-zinc-700" />
+
+            <div className="space-y-3">
+              <Label className="flex items-center text-sm font-medium text-zinc-300">
+                🎭 {t("specialRoles")}
+              </Label>
+              <SpecialRoleSettings />
+            </div>
+
+            <Separator className="bg-zinc-700" />
+
+            <div className="space-y-3">
+              <Label className="flex items-center text-sm font-medium text-zinc-300">
+                🏅 {t("scoring")}
+              </Label>
+              <ScoringSettings />
+            </div>
           </CardContent>
         </Card>
 
@@ -1,12 +1,19 @@
 "use client";
 
+import DetectivePanel from "../_components/detective-panel";
+import SpecialRoleInfo from "../_components/special-role-info";
 import { Badge } from "@/src/components/ui/badge";
 import { Button } from "@/src/components/ui/button";
 import { Card, CardContent } from "@/src/components/ui/card";
 import { Separator } from "@/src/components/ui/separator";
+import { ROLE_DEFINITIONS } from "@/src/lib/roles";
 import { socketService } from "@/src/lib/socket-service";
 import { useGameStore } from "@/src/stores/game-store";
-import type { Player } from "@/src/types/game";
+import type {
+  Player,
+  PlayerConnectedData,
+  PlayerUpdatedData,
+} from "@/src/types/game";
 import {
   Drama,
   Eye,
@@ -19,8 +26,12 @@ import { useTranslations } from "next-intl";
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 
+// Spectators get no card, so nobody waits for them to reveal it
+const haveAllRevealed = (players: Player[]) =>
+  players.every(p => p.isSpectator || p.hasRevealed === true);
+
 export default function MultiplayerWordRevealPhase() {
-  const { gameState, currentPlayerId, updatePlayers, setCurrentPlayerId } =
+  const { gameState, currentPlayerId, privateData, updatePlayers } =
     useGameStore();
   const t = useTranslations("WordRevealPhase");
   const tReveal = useTranslations("MultiplayerWordReveal");
@@ -32,7 +43,10 @@ export default function MultiplayerWordRevealPhase() {
 
   const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
   const isHost = currentPlayerId === gameState.hostId;
-  const hasRevealed = currentPlayer?.hasRevealed || false;
+  const roundPlayers = gameState.players.filter(p => !p.isSpectator);
+  // Spectators wait with those who already revealed their card
+  const hasRevealed =
+    currentPlayer?.hasRevealed || currentPlayer?.isSpectator || false;
 
   // Debug log to understand Player not found issue
   useEffect(() => {
@@ -52,55 +66,34 @@ export default function MultiplayerWordRevealPhase() {
     gameState.phase,
   ]);
 
-  // Reset card state when game restarts (detected by word change)
+  // Reset card state when game restarts (detected by new private data)
   useEffect(() => {
-    console.log("Word changed, resetting card state:", {
-      newWord: gameState.currentWord,
-      newHints: gameState.currentHints,
-      hintsCount: gameState.currentHints?.length,
+    console.log("Private data changed, resetting card state:", {
+      role: privateData?.role,
+      hintsCount: privateData?.hints?.length,
     });
     setIsCardFlipped(false);
     setRandomHint("");
     setAllRevealed(false);
     setIsStartingDiscussion(false);
-  }, [gameState.currentWord, gameState.currentHints]);
+  }, [privateData]);
 
   // Listen for player revealed updates
   useEffect(() => {
-    const handlePlayerRevealedUpdate = (data: {
-      playerId: string;
-      players: unknown;
-    }) => {
+    const handlePlayerRevealedUpdate = (data: PlayerUpdatedData) => {
       // Update players in store
-      const players = data.players as Array<{ hasRevealed?: boolean }>;
-      updatePlayers(players as Player[]);
+      updatePlayers(data.players);
 
       // Check if all players have revealed (ensure all have the property set)
-      const allPlayersRevealed = players.every(p => p.hasRevealed === true);
-      setAllRevealed(allPlayersRevealed);
+      setAllRevealed(haveAllRevealed(data.players));
     };
 
-    const handlePlayerRejoined = (data: {
-      oldPlayerId: string;
-      newPlayerId: string;
-      playerName: string;
-      players: Player[];
-    }) => {
+    const handlePlayerRejoined = (data: PlayerConnectedData) => {
       console.log("Player rejoined during word reveal:", {
-        oldPlayerId: data.oldPlayerId,
-        newPlayerId: data.newPlayerId,
-        currentPlayerId,
+        playerId: data.playerId,
+        playerName: data.playerName,
       });
 
-      // If the rejoined player is the current player, update currentPlayerId
-      if (currentPlayerId === data.oldPlayerId) {
-        console.log(
-          "Updating currentPlayerId in word reveal phase:",
-          data.newPlayerId,
-        );
-        setCurrentPlayerId(data.newPlayerId);
-      }
-
       // Update players
       updatePlayers(data.players);
     };
@@ -115,27 +108,22 @@ export default function MultiplayerWordRevealPhase() {
       );
       socketService.getSocket().off("player-rejoined", handlePlayerRejoined);
     };
-  }, [updatePlayers, currentPlayerId, setCurrentPlayerId]);
+  }, [updatePlayers]);
 
   // Check initial state and sync with server data
   useEffect(() => {
-    const allPlayersRevealed = gameState.players.every(
-      p => p.hasRevealed === true,
-    );
-    setAllRevealed(allPlayersRevealed);
-  }, [gameState.players, gameState.currentWord]);
+    setAllRevealed(haveAllRevealed(gameState.players));
+  }, [gameState.players, privateData]);
 
   const handleCardFlip = () => {
     if (isCardFlipped || hasRevealed) return;
 
     setIsCardFlipped(true);
 
-    if (currentPlayer?.role === "impostor" && gameState.showHintsToImpostors) {
-      const hints = gameState.currentHints;
+    if (privateData?.role === "impostor" && privateData.hints?.length) {
+      const hints = privateData.hints;
       console.log("Impostor flipping card - available hints:", {
-        word: gameState.currentWord,
-        hints: hints,
-        hintsCount: hints?.length,
+        hintsCount: hints.length,
       });
       const randomIndex = Math.floor(Math.random() * hints.length);
       const selectedHint = hints[randomIndex];
@@ -165,10 +153,7 @@ export default function MultiplayerWordRevealPhase() {
     }
 
     // Double-check that all players have actually revealed
-    const allHaveRevealed = gameState.players.every(
-      p => p.hasRevealed === true,
-    );
-    if (!allHaveRevealed) {
+    if (!haveAllRevealed(gameState.players)) {
       const revealedCount = gameState.players.filter(p => p.hasRevealed).length;
       console.error("Not all players have revealed!", {
         revealed: revealedCount,
@@ -181,7 +166,7 @@ export default function MultiplayerWordRevealPhase() {
       toast.error(
         tReveal("notAllPlayersRevealed", {
           revealed: revealedCount,
-          total: gameState.players.length,
+          total: gameState.players.filter(p => !p.isSpectator).length,
         }),
       );
       return;
@@ -229,7 +214,7 @@ export default function MultiplayerWordRevealPhase() {
                 {tReveal("playersReady")}
               </h3>
               <div className="space-y-2">
-                {gameState.players.map(player => (
+                {roundPlayers.map(player => (
                   <div
                     key={player.id}
                     className="flex items-center justify-between text-sm"
@@ -279,15 +264,19 @@ export default function MultiplayerWordRevealPhase() {
 
   // Already revealed - waiting for others
   if (hasRevealed) {
-    const revealedCount = gameState.players.filter(p => p.hasRevealed).length;
-    const totalCount = gameState.players.length;
+    const revealedCount = roundPlayers.filter(p => p.hasRevealed).length;
+    const totalCount = roundPlayers.length;
 
     return (
       <div className="flex h-dvh items-center justify-center p-6 text-white">
         <div className="mx-auto max-w-md space-y-6 text-center">
           <div className="space-y-2">
             <Eye className="mx-auto h-16 w-16 text-purple-400" />
-            <h1 className="text-3xl font-bold">{tReveal("cardRevealed")}</h1>
+            <h1 className="text-3xl font-bold">
+              {currentPlayer.isSpectator
+                ? tReveal("spectating")
+                : tReveal("cardRevealed")}
+            </h1>
             <p className="text-zinc-400">{tReveal("waitingForOtherPlayers")}</p>
             <Badge variant="outline" className="border-zinc-600 text-zinc-300">
               {revealedCount} {tReveal("of")} {totalCount}{" "}
@@ -300,7 +289,7 @@ export default function MultiplayerWordRevealPhase() {
               {tReveal("playerStatus")}
             </h3>
             <div className="space-y-2">
-              {gameState.players.map(player => (
+              {roundPlayers.map(player => (
                 <div
                   key={player.id}
                   className="flex items-center justify-between text-sm"
@@ -327,7 +316,10 @@ export default function MultiplayerWordRevealPhase() {
     );
   }
 
-  const isImpostor = currentPlayer.role === "impostor";
+  const isImpostor = privateData?.role === "impostor";
+  const canInvestigate =
+    !!privateData?.specialRole &&
+    !!ROLE_DEFINITIONS[privateData.specialRole].canInvestigate;
 
   return (
     <div className="flex h-dvh items-center justify-center p-6 text-white">
@@ -368,7 +360,25 @@ export default function MultiplayerWordRevealPhase() {
                           </p>
                         </div>
 
-                        {gameState.showHintsToImpostors && (
+                        {!!privateData?.teammates?.length && (
+                          <div className="space-y-2">
+                            <p className="text-sm text-zinc-400">
+                              {tReveal("yourTeammates")}
+                            </p>
+                            <div className="flex flex-wrap justify-center gap-2">
+                              {privateData.teammates.map(teammate => (
+                                <Badge
+                                  key={teammate.id}
+                                  className="border-red-600/30 bg-red-600/20 text-red-300"
+                                >
+                                  {teammate.name}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {randomHint && (
                           <div className="space-y-3">
                             <Separator className="bg-zinc-700" />
                             <div className="space-y-2">
@@ -392,11 +402,12 @@ export default function MultiplayerWordRevealPhase() {
                         <div className="space-y-2">
                           <p className="text-zinc-400">{t("yourWordIs")}</p>
                           <p className="text-purple text-3xl font-light tracking-wide">
-                            {gameState.currentWord}
+                            {privateData?.word}
                           </p>
                         </div>
                       </div>
                     )}
+                    <SpecialRoleInfo specialRole={privateData?.specialRole} />
                   </div>
                 )}
               </div>
@@ -404,6 +415,10 @@ export default function MultiplayerWordRevealPhase() {
           </Card>
         </div>
 
+        {isCardFlipped && canInvestigate && (
+          <DetectivePanel detectiveId={currentPlayer.id} />
+        )}
+
         <div className="mb-6">
           {!isCardFlipped ? (
             <Button
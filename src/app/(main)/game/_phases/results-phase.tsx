@@ -1,10 +1,12 @@
+import Scoreboard from "../_components/scoreboard";
 import { Badge } from "@/src/components/ui/badge";
 import { Button } from "@/src/components/ui/button";
 import { Separator } from "@/src/components/ui/separator";
 import { Locale } from "@/src/config/language";
+import { getGameConfig } from "@/src/lib/game-config";
 import { socketService } from "@/src/lib/socket-service";
-import { getRandomWordWithHints } from "@/src/lib/word-service";
 import { useGameStore } from "@/src/stores/game-store";
+import type { PlayerConnectedData } from "@/src/types/game";
 import { RotateCcw, Home, Play, Trophy, Target } from "lucide-react";
 import { useLocale, useTranslations } from "next-intl";
 import { useRouter } from "next/navigation";
@@ -12,15 +14,10 @@ import { useState, useEffect } from "react";
 import { toast } from "sonner";
 
 export function ResultsPhase() {
-  const {
-    gameState,
-    newGame,
-    currentPlayerId,
-    clearRoomData,
-    setCurrentPlayerId,
-    updatePlayers,
-  } = useGameStore();
+  const { gameState, newGame, currentPlayerId, clearRoomData, updatePlayers } =
+    useGameStore();
   const t = useTranslations("ResultsPhase");
+  const tRoles = useTranslations("SpecialRoles");
   const router = useRouter();
   const locale = useLocale() as Locale;
   const impostors = gameState.players.filter(p => p.role === "impostor");
@@ -32,29 +29,15 @@ export function ResultsPhase() {
   const hasVotingResults =
     gameState.votingResults && gameState.votingResults.length > 0;
   const winners = gameState.winners || [];
-
-  // Sort players by wins (descending)
-  const playersByWins = [...gameState.players].sort(
-    (a, b) => (b.wins || 0) - (a.wins || 0),
-  );
+  const specialRoleOf = (playerId: string) =>
+    gameState.players.find(p => p.id === playerId)?.specialRole;
+  const match = gameState.match;
+  const isMatchOver = !!match && match.history.length >= match.totalRounds;
 
   // Listen for player reconnection
   useEffect(() => {
-    const handlePlayerRejoined = (data: {
-      oldPlayerId: string;
-      newPlayerId: string;
-      playerName: string;
-      players: unknown[];
-    }) => {
-      // If the rejoined player is the current player, update currentPlayerId
-      if (currentPlayerId === data.oldPlayerId) {
-        console.log(
-          "Updating currentPlayerId in results phase:",
-          data.newPlayerId,
-        );
-        setCurrentPlayerId(data.newPlayerId);
-      }
-      updatePlayers(data.players as typeof gameState.players);
+    const handlePlayerRejoined = (data: PlayerConnectedData) => {
+      updatePlayers(data.players);
     };
 
     socketService.getSocket().on("player-rejoined", handlePlayerRejoined);
@@ -62,9 +45,9 @@ export function ResultsPhase() {
     return () => {
       socketService.getSocket().off("player-rejoined", handlePlayerRejoined);
     };
-  }, [currentPlayerId, setCurrentPlayerId, updatePlayers]);
+  }, [updatePlayers]);
 
-  const handlePlayAgain = async () => {
+  const handlePlayAgain = () => {
     // Prevent multiple simultaneous restarts
     if (isRestarting) {
       return;
@@ -75,161 +58,30 @@ export function ResultsPhase() {
     setIsRestarting(true);
     toast.loading(t("restartingGame"));
 
-    try {
-      // Use current category or fallback to a random selected category
-      const category =
-        gameState.currentCategory ||
-        gameState.selectedCategories[
-          Math.floor(Math.random() * gameState.selectedCategories.length)
-        ];
-
-      if (!category || gameState.selectedCategories.length === 0) {
-        throw new Error(t("noCategoryAvailable"));
-      }
-
-      // Generate new word with same configuration
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-      const response = await fetch("/api/generate-words", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          category,
-          language: locale,
-          count: 1,
-          difficulty: gameState.difficulty,
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        // Try to get error details
-        const contentType = response.headers.get("content-type");
-        let errorData: { error?: string } = {};
-
-        if (contentType?.includes("application/json")) {
-          try {
-            errorData = await response.json();
-          } catch (e) {
-            console.error(t("failedToParseError"), e);
-          }
-        } else {
-          const textError = await response.text();
-          console.error("API error response (text):", textError);
-          errorData = { error: textError || `HTTP ${response.status}` };
-        }
+    // The server picks a new word with the same configuration
+    const gameConfig = getGameConfig(gameState, locale);
 
-        console.error("API error response:", errorData);
-        throw new Error(
-          errorData.error ||
-            `${t("failedToGenerateWord")} (${response.status}). ${t("pleaseTryAgain")}`,
-        );
-      }
+    console.log("Sending restart-game with config:", gameConfig);
 
-      const data = await response.json();
+    socketService.restartGame(gameConfig, response => {
+      setIsRestarting(false);
+      toast.dismiss();
 
-      if (!data.wordsWithHints || data.wordsWithHints.length === 0) {
-        throw new Error(t("noWordsReturned"));
+      if (response.success) {
+        // The game state will be updated via the game-started event
+        toast.success(t("gameRestarted"));
+      } else {
+        toast.error(response.error || t("failedToRestartGame"));
       }
+    });
+  };
 
-      const wordData = data.wordsWithHints[0];
-      const newWord = wordData.word;
-      const newHints = wordData.hints || [];
-
-      console.log("Restart game - Generated new word and hints:", {
-        word: newWord,
-        hints: newHints,
-        category,
-      });
-
-      // Prepare game config for restart
-      const gameConfig = {
-        currentWord: newWord,
-        currentHints: newHints,
-        currentCategory: category,
-        selectedCategories: gameState.selectedCategories,
-        difficulty: gameState.difficulty,
-        showHintsToImpostors: gameState.showHintsToImpostors,
-        impostorCount: gameState.impostorCount,
-      };
-
-      console.log("Sending restart-game with config:", gameConfig);
-
-      // Emit restart-game event to server
-      socketService.restartGame(gameConfig, response => {
-        setIsRestarting(false);
-
-        if (response.success) {
-          // The game state will be updated via the game-started event
-          toast.dismiss();
-          toast.success(t("gameRestarted"));
-        } else {
-          toast.dismiss();
-          toast.error(response.error || t("failedToRestartGame"));
-        }
-      });
-    } catch (error) {
-      console.error("Error generating word from API:", error);
-
-      // Try to use fallback words
-      try {
-        const category =
-          gameState.currentCategory ||
-          gameState.selectedCategories[
-            Math.floor(Math.random() * gameState.selectedCategories.length)
-          ];
-
-        const wordData = await getRandomWordWithHints(
-          category,
-          locale,
-          gameState.difficulty,
-        );
-
-        console.log("Restart game (fallback) - Generated word and hints:", {
-          word: wordData.word,
-          hints: wordData.hints,
-          category,
-        });
-
-        // Prepare game config for restart
-        const gameConfig = {
-          currentWord: wordData.word,
-          currentHints: wordData.hints,
-          currentCategory: category,
-          selectedCategories: gameState.selectedCategories,
-          difficulty: gameState.difficulty,
-          showHintsToImpostors: gameState.showHintsToImpostors,
-          impostorCount: gameState.impostorCount,
-        };
-
-        console.log("Sending restart-game (fallback) with config:", gameConfig);
-
-        // Emit restart-game event to server
-        socketService.restartGame(gameConfig, response => {
-          setIsRestarting(false);
-
-          if (response.success) {
-            toast.dismiss();
-            toast.success(t("gameRestarted"));
-          } else {
-            toast.dismiss();
-            toast.error(response.error || t("failedToRestartGame"));
-          }
-        });
-      } catch (fallbackError) {
-        setIsRestarting(false);
-        toast.dismiss();
-        const errorMessage =
-          error instanceof Error ? error.message : t("failedToGenerateWord");
-        toast.error(errorMessage);
-        console.error("Error with fallback words:", fallbackError);
+  const handleShowStandings = () => {
+    socketService.showStandings(response => {
+      if (!response.success) {
+        toast.error(response.error || t("failedToShowStandings"));
       }
-    }
+    });
   };
 
   const handleNewGame = () => {
@@ -277,6 +129,14 @@ export function ResultsPhase() {
       <div className="mx-auto my-auto w-full max-w-2xl space-y-10 text-center">
         <div className="space-y-3">
           <h1 className="text-4xl font-bold">{t("results")}</h1>
+          {match && (
+            <p className="text-zinc-400">
+              {t("roundOf", {
+                round: match.currentRound,
+                total: match.totalRounds,
+              })}
+            </p>
+          )}
         </div>
 
         <div className="space-y-3">
@@ -286,6 +146,11 @@ export function ResultsPhase() {
           <p className="text-3xl font-light text-blue-400">
             {gameState.currentWord}
           </p>
+          {gameState.decoyWord && (
+            <p className="text-zinc-400">
+              {t("decoyWordWas", { word: gameState.decoyWord })}
+            </p>
+          )}
         </div>
 
         <Separator className="bg-zinc-800" />
@@ -308,6 +173,39 @@ export function ResultsPhase() {
           </div>
         </div>
 
+        {gameState.impostorGuesses && gameState.impostorGuesses.length > 0 && (
+          <>
+            <Separator className="bg-zinc-800" />
+
+            <div className="space-y-4">
+              <p className="tracking-wider text-zinc-500 uppercase">
+                {t("impostorGuesses")}
+              </p>
+              <div className="space-y-2">
+                {gameState.impostorGuesses.map(g => (
+                  <div
+                    key={g.playerId}
+                    className="flex items-center justify-between rounded-xl border border-zinc-700/50 bg-zinc-800/50 p-3"
+                  >
+                    <span className="text-lg">
+                      {g.playerName}: &quot;{g.guess}&quot;
+                    </span>
+                    <Badge
+                      className={
+                        g.correct
+                          ? "border-green-600/30 bg-green-600/20 text-green-400"
+                          : "border-red-600/30 bg-red-600/20 text-red-400"
+                      }
+                    >
+                      {g.correct ? t("guessedCorrectly") : t("guessedWrong")}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
         {hasVotingResults && (
           <>
             <Separator className="bg-zinc-800" />
@@ -335,9 +233,42 @@ export function ResultsPhase() {
                             {t("impostor")}
                           </Badge>
                         )}
+                        {specialRoleOf(result.playerId) && (
+                          <Badge className="ml-2 border-amber-600/30 bg-amber-600/20 text-amber-300">
+                            {tRoles(specialRoleOf(result.playerId)!)}
+                          </Badge>
+                        )}
+                        {gameState.ejections?.some(
+                          e => e.playerId === result.playerId,
+                        ) && (
+                          <Badge className="ml-2 border-orange-600/30 bg-orange-600/20 text-orange-400">
+                            {t("ejected")}
+                          </Badge>
+                        )}
+                        {result.abstained && (
+                          <Badge className="ml-2 border-zinc-600/30 bg-zinc-600/20 text-zinc-400">
+                            {t("abstained")}
+                          </Badge>
+                        )}
                       </span>
                       <span className="text-lg font-medium">
                         {result.voteCount} {t("votes")}
+                        {result.points !== undefined && (
+                          <span
+                            className={`ml-3 ${
+                              result.points < 0
+                                ? "text-red-400"
+                                : "text-green-400"
+                            }`}
+                          >
+                            {t("roundPoints", {
+                              points:
+                                result.points > 0
+                                  ? `+${result.points}`
+                                  : result.points,
+                            })}
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -366,6 +297,11 @@ export function ResultsPhase() {
                     >
                       <p className="text-xl font-light text-yellow-400">
                         {winner.name}
+                        {winner.specialRole && (
+                          <Badge className="ml-2 border-amber-600/30 bg-amber-600/20 text-amber-300">
+                            {tRoles(winner.specialRole)}
+                          </Badge>
+                        )}
                       </p>
                     </div>
                   ))}
@@ -376,43 +312,7 @@ export function ResultsPhase() {
 
         <Separator className="bg-zinc-800" />
 
-        <div className="space-y-4">
-          <p className="flex items-center justify-center gap-2 tracking-wider text-zinc-500 uppercase">
-            <Trophy className="h-5 w-5" />
-            {t("leaderboard")}
-          </p>
-          <div className="space-y-2">
-            {playersByWins.map((player, index) => (
-              <div
-                key={player.id}
-                className={`rounded-xl border p-3 ${
-                  index === 0
-                    ? "border-yellow-600/30 bg-yellow-600/10"
-                    : "border-zinc-700/50 bg-zinc-800/50"
-                }`}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl font-bold text-zinc-600">
-                      #{index + 1}
-                    </span>
-                    <span className="text-lg">{player.name}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Trophy
-                      className={`h-5 w-5 ${
-                        index === 0 ? "text-yellow-400" : "text-zinc-600"
-                      }`}
-                    />
-                    <span className="text-lg font-medium">
-                      {player.wins || 0}
-                    </span>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+        <Scoreboard players={gameState.players} />
 
         <Separator className="bg-zinc-800" />
 
@@ -422,14 +322,24 @@ export function ResultsPhase() {
           {isMultiplayer && isHost ? (
             // Host in multiplayer: show two buttons
             <>
-              <Button
-                onClick={handlePlayAgain}
-                disabled={isRestarting}
-                className="w-full rounded-2xl border border-blue-600/20 bg-blue-600/10 px-8 py-6 text-lg font-light text-blue-400 backdrop-blur-sm transition-all duration-200 hover:border-blue-600/30 hover:bg-blue-600/20 disabled:cursor-not-allowed disabled:opacity-50"
-              >
-                <Play className="mr-3 h-5 w-5" />
-                {t("playAgain")}
-              </Button>
+              {isMatchOver ? (
+                <Button
+                  onClick={handleShowStandings}
+                  className="w-full rounded-2xl border border-yellow-600/20 bg-yellow-600/10 px-8 py-6 text-lg font-light text-yellow-400 backdrop-blur-sm transition-all duration-200 hover:border-yellow-600/30 hover:bg-yellow-600/20"
+                >
+                  <Trophy className="mr-3 h-5 w-5" />
+                  {t("finalStandings")}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handlePlayAgain}
+                  disabled={isRestarting}
+                  className="w-full rounded-2xl border border-blue-600/20 bg-blue-600/10 px-8 py-6 text-lg font-light text-blue-400 backdrop-blur-sm transition-all duration-200 hover:border-blue-600/30 hover:bg-blue-600/20 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <Play className="mr-3 h-5 w-5" />
+                  {match ? t("nextRound") : t("playAgain")}
+                </Button>
+              )}
               <Button
                 onClick={handleNewGame}
                 disabled={isRestarting}
@@ -1,5 +1,8 @@
 import { IconBox } from "../_components/icon-box";
 import LanguageSelector from "../_components/language-selector";
+import ScoringSettings from "../_components/scoring-settings";
+import SpecialRoleSettings from "../_components/special-role-settings";
+import TimerDurationSelect from "../_components/timer-duration-select";
 import { Button } from "@/src/components/ui/button";
 import {
   Card,
@@ -41,6 +44,7 @@ export default function SetupPhase() {
     removeCustomCategory,
     setCustomCategory,
     toggleHints,
+    toggleUndercover,
     startGame,
     setDifficulty,
   } = useGameStore();
@@ -168,7 +172,7 @@ export default function SetupPhase() {
           </CardHeader>
 
           <CardContent className="space-y-6">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div className="space-y-3">
                 <Label className="text-sm font-medium text-zinc-300">
                   🎭 {t("impostors")}
@@ -225,6 +229,13 @@ export default function SetupPhase() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-3">
+                <Label className="flex items-center text-sm font-medium text-zinc-300">
+                  ⏱️ {t("discussionTime")}
+                </Label>
+                <TimerDurationSelect phase="discussion" />
+              </div>
             </div>
 
             <Separator className="bg-zinc-700" />
@@ -245,6 +256,41 @@ export default function SetupPhase() {
                 </Label>
               </div>
             </div>
+
+            <div className="flex items-center justify-between rounded-lg bg-zinc-800/30 p-3">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="undercover"
+                  checked={!!gameState.undercover}
+                  onCheckedChange={toggleUndercover}
+                  className="border-zinc-600 data-[state=checked]:border-purple-500 data-[state=checked]:bg-blue-500"
+                />
+                <Label
+                  htmlFor="undercover"
+                  className="cursor-pointer text-sm font-medium text-zinc-300"
+                >
+                  {t("undercover")}
+                </Label>
+              </div>
+            </div>
+
+            <Separator className="bg-zinc-700" />
+
+            <div className="space-y-3">
+              <Label className="flex items-center text-sm font-medium text-zinc-300">
+                🎭 {t("specialRoles")}
+              </Label>
+              <SpecialRoleSettings />
+            </div>
+
+            <Separator className="bg-zinc-700" />
+
+            <div className="space-y-3">
+              <Label className="flex items-center text-sm font-medium text-zinc-300">
+                🏅 {t("scoring")}
+              </Label>
+              <ScoringSettings />
+            </div>
           </CardContent>
         </Card>
 
@@ -0,0 +1,76 @@
+import PhaseTimer from "../_components/phase-timer";
+import Scoreboard from "../_components/scoreboard";
+import { Separator } from "@/src/components/ui/separator";
+import { useGameStore } from "@/src/stores/game-store";
+import { Crown } from "lucide-react";
+import { useTranslations } from "next-intl";
+
+export default function StandingsPhase() {
+  const { gameState, currentPlayerId } = useGameStore();
+  const t = useTranslations("StandingsPhase");
+  const isHost = currentPlayerId === gameState.hostId;
+  const history = gameState.match?.history || [];
+
+  // Highest score wins the match; ties share the title
+  const topScore = Math.max(...gameState.players.map(p => p.score || 0));
+  const champions = gameState.players.filter(p => (p.score || 0) === topScore);
+
+  const getName = (playerId: string) =>
+    gameState.players.find(p => p.id === playerId)?.name ?? "?";
+
+  return (
+    <div className="flex h-dvh overflow-y-auto px-6 py-12 text-white">
+      <div className="mx-auto my-auto w-full max-w-2xl space-y-10 text-center">
+        <div className="space-y-4">
+          <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-yellow-500">
+            <Crown className="h-10 w-10 text-white" />
+          </div>
+          <p className="tracking-wider text-zinc-500 uppercase">
+            {champions.length === 1 ? t("champion") : t("champions")}
+          </p>
+          <h1 className="text-4xl font-bold text-yellow-400">
+            {champions.map(p => p.name).join(", ")}
+          </h1>
+        </div>
+
+        <Scoreboard players={gameState.players} />
+
+        <Separator className="bg-zinc-800" />
+
+        <div className="space-y-4">
+          <p className="tracking-wider text-zinc-500 uppercase">
+            {t("rounds")}
+          </p>
+          <div className="space-y-2">
+            {history.map(round => (
+              <div
+                key={round.round}
+                className="rounded-xl border border-zinc-700/50 bg-zinc-800/50 p-3 text-left"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-lg">
+                    {t("round", { round: round.round })}:{" "}
+                    <span className="text-blue-400">{round.word}</span>
+                  </span>
+                  <span className="text-sm text-zinc-500 capitalize">
+                    {round.category}
+                  </span>
+                </div>
+                <p className="text-sm text-zinc-400">
+                  {t("roundWinners", {
+                    names: round.winners.map(getName).join(", "),
+                  })}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-500">{t("returningToLobby")}</p>
+          <PhaseTimer canControl={isHost} />
+        </div>
+      </div>
+    </div>
+  );
+}
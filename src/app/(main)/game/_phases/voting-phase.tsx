@@ -1,13 +1,23 @@
+import ClueList from "../_components/clue-list";
+import EjectedPlayers from "../_components/ejected-players";
+import PhaseTimer from "../_components/phase-timer";
 import { Button } from "@/src/components/ui/button";
+import { isPlaying } from "@/src/lib/players";
 import { socketService } from "@/src/lib/socket-service";
 import { useGameStore } from "@/src/stores/game-store";
+import type { VoteSubmittedData, VotingMode } from "@/src/types/game";
 import { Check, Vote, Users } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 
 export default function VotingPhase() {
-  const { gameState, currentPlayerId } = useGameStore();
+  const {
+    gameState,
+    currentPlayerId,
+    updateGameStateFromServer,
+    submitLocalVotes,
+  } = useGameStore();
   const t = useTranslations("VotingPhase");
   const tError = useTranslations("errors");
 
@@ -17,22 +27,39 @@ export default function VotingPhase() {
 
   const isMultiplayer = gameState.isMultiplayer;
   const isHost = currentPlayerId === gameState.hostId;
-  const maxVotes = gameState.impostorCount;
-  const totalPlayers = gameState.players.length;
+  const votingMode = gameState.votingMode ?? "plurality";
+  const alivePlayers = gameState.players.filter(isPlaying);
+  const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
+  // Ejected players and spectators only watch
+  const isWatching = !!currentPlayer && !isPlaying(currentPlayer);
+
+  const modeDescriptions: Record<VotingMode, string> = {
+    plurality: t("pluralityMode"),
+    majority: t("majorityMode"),
+    elimination: t("eliminationMode"),
+  };
 
-  // Get votable players (all players except current player)
-  const votablePlayers = gameState.players.filter(
-    p => p.id !== currentPlayerId,
-  );
+  // Online, each player votes for one player and the server's voting mode
+  // decides who is ejected. Locally, the group picks every impostor at once.
+  const maxVotes = isMultiplayer ? 1 : gameState.impostorCount;
+  const totalPlayers = alivePlayers.length;
+
+  // Get votable players (everyone still in the game except current player)
+  const votablePlayers = alivePlayers.filter(p => p.id !== currentPlayerId);
 
   useEffect(() => {
     if (!isMultiplayer) return;
 
-    const handleVoteSubmitted = (data: {
-      voteCount: number;
-      totalPlayers: number;
-    }) => {
+    const handleVoteSubmitted = (data: VoteSubmittedData) => {
       setVoteCount(data.voteCount);
+
+      // Resync the countdown with the server's
+      const { timer } = useGameStore.getState().gameState;
+      if (timer && data.remainingMs !== undefined) {
+        updateGameStateFromServer({
+          timer: { ...timer, remainingMs: data.remainingMs },
+        });
+      }
     };
 
     socketService.getSocket().on("vote-submitted", handleVoteSubmitted);
@@ -40,10 +67,10 @@ export default function VotingPhase() {
     return () => {
       socketService.getSocket().off("vote-submitted", handleVoteSubmitted);
     };
-  }, [isMultiplayer]);
+  }, [isMultiplayer, updateGameStateFromServer]);
 
   const toggleVote = (playerId: string) => {
-    if (hasSubmitted) return;
+    if (hasSubmitted || isWatching) return;
 
     setSelectedVotes(prev => {
       if (prev.includes(playerId)) {
@@ -89,9 +116,10 @@ export default function VotingPhase() {
         });
       });
     } else {
-      // For local mode, just mark as submitted
+      // For local mode, the group's vote decides the round right away
       setHasSubmitted(true);
       toast.success(t("voteSubmitted"));
+      submitLocalVotes(selectedVotes);
     }
   };
 
@@ -121,9 +149,21 @@ export default function VotingPhase() {
           </h1>
 
           <p className="text-xl text-gray-300">
-            {t("selectImpostors", { count: maxVotes })}
+            {currentPlayer?.isSpectator
+              ? t("spectatingUntilNextRound")
+              : isWatching
+                ? t("spectating")
+                : t("selectImpostors", { count: maxVotes })}
           </p>
 
+          {isMultiplayer && (
+            <p className="text-sm text-zinc-400">
+              {modeDescriptions[votingMode]}
+              {votingMode === "elimination" &&
+                ` · ${t("voteRound", { round: gameState.voteRound ?? 1 })}`}
+            </p>
+          )}
+
           {isMultiplayer && (
             <div className="flex items-center justify-center gap-2 text-gray-400">
               <Users className="h-5 w-5" />
@@ -135,8 +175,13 @@ export default function VotingPhase() {
               </span>
             </div>
           )}
+
+          <PhaseTimer canControl={isHost} />
         </div>
 
+        <EjectedPlayers ejections={gameState.ejections ?? []} />
+        <ClueList clues={gameState.clues ?? []} />
+
         <div className="space-y-3">
           {votablePlayers.map(player => {
             const isSelected = selectedVotes.includes(player.id);
@@ -144,12 +189,12 @@ export default function VotingPhase() {
               <button
                 key={player.id}
                 onClick={() => toggleVote(player.id)}
-                disabled={hasSubmitted}
+                disabled={hasSubmitted || isWatching}
                 className={`w-full rounded-xl border-2 p-4 text-lg font-medium transition-all duration-200 disabled:cursor-not-allowed ${
                   isSelected
                     ? "border-purple-500 bg-purple-500/20 text-purple-400"
                     : "border-zinc-700 bg-zinc-800/50 text-gray-300 hover:border-zinc-600 hover:bg-zinc-800"
-                } ${hasSubmitted ? "opacity-50" : ""}`}
+                } ${hasSubmitted || isWatching ? "opacity-50" : ""}`}
               >
                 <div className="flex items-center justify-between">
                   <span>{player.name}</span>
@@ -161,7 +206,7 @@ export default function VotingPhase() {
         </div>
 
         <div className="space-y-3">
-          {!hasSubmitted ? (
+          {!hasSubmitted && !isWatching ? (
             <Button
               onClick={handleSubmitVotes}
               disabled={selectedVotes.length !== maxVotes}
@@ -171,9 +216,11 @@ export default function VotingPhase() {
             </Button>
           ) : (
             <>
-              <div className="rounded-xl border border-green-500/20 bg-green-500/10 p-4">
-                <p className="text-green-400">{t("voteRecorded")}</p>
-              </div>
+              {hasSubmitted && (
+                <div className="rounded-xl border border-green-500/20 bg-green-500/10 p-4">
+                  <p className="text-green-400">{t("voteRecorded")}</p>
+                </div>
+              )}
 
               {isMultiplayer && isHost && (
                 <Button
@@ -190,12 +237,14 @@ export default function VotingPhase() {
             </>
           )}
 
-          <p className="text-sm text-zinc-500">
-            {t("selected", {
-              count: selectedVotes.length,
-              max: maxVotes,
-            })}
-          </p>
+          {!isWatching && (
+            <p className="text-sm text-zinc-500">
+              {t("selected", {
+                count: selectedVotes.length,
+                max: maxVotes,
+              })}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,7 +1,10 @@
+import DetectivePanel from "../_components/detective-panel";
+import SpecialRoleInfo from "../_components/special-role-info";
 import { Badge } from "@/src/components/ui/badge";
 import { Button } from "@/src/components/ui/button";
 import { Card, CardContent } from "@/src/components/ui/card";
 import { Separator } from "@/src/components/ui/separator";
+import { getRoleDefinition } from "@/src/lib/roles";
 import { useGameStore } from "@/src/stores/game-store";
 import {
   Drama,
@@ -41,7 +44,12 @@ export default function WordRevealPhase() {
 
     setIsCardFlipped(true);
 
-    if (selectedPlayer?.role === "impostor" && gameState.showHintsToImpostors) {
+    if (
+      selectedPlayer?.role === "impostor" &&
+      gameState.showHintsToImpostors &&
+      !gameState.undercover &&
+      !roleDefinition?.knowsNothing
+    ) {
       const hints = gameState.currentHints;
       const randomIndex = Math.floor(Math.random() * hints.length);
       setRandomHint(hints[randomIndex]);
@@ -140,7 +148,16 @@ export default function WordRevealPhase() {
   }
 
   const selectedPlayer = gameState.players[selectedCardIndex];
-  const isImpostor = selectedPlayer?.role === "impostor";
+  const roleDefinition = selectedPlayer && getRoleDefinition(selectedPlayer);
+  // Undercover impostors get the decoy on a regular card, unless their role
+  // keeps them from knowing any word
+  const isImpostor =
+    selectedPlayer?.role === "impostor" &&
+    (!gameState.undercover || !!roleDefinition?.knowsNothing);
+  const word =
+    selectedPlayer?.role === "impostor" && gameState.undercover
+      ? gameState.decoyWord
+      : gameState.currentWord;
 
   return (
     <div className="flex h-dvh items-center justify-center p-6 text-white">
@@ -180,21 +197,22 @@ export default function WordRevealPhase() {
                           </p>
                         </div>
 
-                        {gameState.showHintsToImpostors && (
-                          <div className="space-y-3">
-                            <Separator className="bg-zinc-700" />
-                            <div className="space-y-2">
-                              <p className="text-sm text-zinc-400">
-                                {t("yourHint")}
-                              </p>
-                              <div className="flex flex-wrap justify-center gap-2">
-                                <Badge className="border-purple-600/30 bg-purple-600/20 text-purple-300">
-                                  {randomHint}
-                                </Badge>
+                        {gameState.showHintsToImpostors &&
+                          !roleDefinition?.knowsNothing && (
+                            <div className="space-y-3">
+                              <Separator className="bg-zinc-700" />
+                              <div className="space-y-2">
+                                <p className="text-sm text-zinc-400">
+                                  {t("yourHint")}
+                                </p>
+                                <div className="flex flex-wrap justify-center gap-2">
+                                  <Badge className="border-purple-600/30 bg-purple-600/20 text-purple-300">
+                                    {randomHint}
+                                  </Badge>
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                       </div>
                     ) : (
                       <div className="space-y-4">
@@ -204,11 +222,12 @@ export default function WordRevealPhase() {
                         <div className="space-y-2">
                           <p className="text-zinc-400">{t("yourWordIs")}</p>
                           <p className="text-purple text-3xl font-light tracking-wide">
-                            {gameState.currentWord}
+                            {word}
                           </p>
                         </div>
                       </div>
                     )}
+                    <SpecialRoleInfo specialRole={selectedPlayer.specialRole} />
                   </div>
                 )}
               </div>
@@ -216,6 +235,10 @@ export default function WordRevealPhase() {
           </Card>
         </div>
 
+        {isCardFlipped && roleDefinition?.canInvestigate && (
+          <DetectivePanel detectiveId={selectedPlayer.id} />
+        )}
+
         <div className="mb-6">
           {!isCardFlipped ? (
             <Button
@@ -1,12 +1,15 @@
 "use client";
 
 import { MultiplayerLobby } from "./_components/multiplayer-lobby";
+import CluePhase from "./_phases/clue-phase";
 import DiscussionPhase from "./_phases/discussion-phase";
+import ImpostorGuessPhase from "./_phases/impostor-guess-phase";
 import MobileSetupPhase from "./_phases/mobile-setup-phase";
 import MultiplayerSetupPhase from "./_phases/multiplayer-setup-phase";
 import MultiplayerWordRevealPhase from "./_phases/multiplayer-word-reveal-phase";
 import { ResultsPhase } from "./_phases/results-phase";
 import SetupPhase from "./_phases/setup-phase";
+import StandingsPhase from "./_phases/standings-phase";
 import VotingPhase from "./_phases/voting-phase";
 import WordRevealPhase from "./_phases/word-reveal-phase";
 import {
@@ -24,11 +27,24 @@ import {
   useGameStarted,
   usePhaseChanged,
   useImpostorRevealed,
+  useClueSubmitted,
+  useImpostorGuessSubmitted,
+  useTimerUpdated,
   useVotingResults,
   useRoomClosed,
 } from "@/src/hooks/use-socket";
 import { socketService } from "@/src/lib/socket-service";
 import { useGameStore } from "@/src/stores/game-store";
+import type {
+  ClueSubmittedData,
+  GameStartedData,
+  ImpostorGuessSubmittedData,
+  PhaseChangedData,
+  RoomAccessOptions,
+  RoomClosedData,
+  TimerUpdatedData,
+  VotingResultsData,
+} from "@/src/types/game";
 import { ArrowLeft, Users, Monitor, Wifi } from "lucide-react";
 import { useTranslations, useLocale } from "next-intl";
 import { useRouter } from "next/navigation";
@@ -44,6 +60,7 @@ export default function Game() {
     updateGameStateFromServer,
     setRoomData,
     updatePlayers,
+    setPrivateData,
     startGame,
     _hasHydrated,
   } = useGameStore();
@@ -130,24 +147,60 @@ export default function Game() {
   // Listen to Socket.IO events for multiplayer
   useGameStarted(
     useCallback(
-      (data: { gameState: Partial<import("@/src/types/game").GameState> }) => {
+      (data: GameStartedData) => {
         updateGameStateFromServer(data.gameState);
+        setPrivateData(data.privateData ?? null);
         toast.success(t("gameStarted"));
       },
-      [updateGameStateFromServer, t],
+      [updateGameStateFromServer, setPrivateData, t],
     ),
   );
 
   usePhaseChanged(
     useCallback(
-      (data: {
-        phase: import("@/src/types/game").GameState["phase"];
-        gameState: Partial<import("@/src/types/game").GameState>;
-      }) => {
+      (data: PhaseChangedData) => {
         updateGameStateFromServer(data.gameState);
+        setPrivateData(data.privateData ?? null);
         toast.info(t("phaseChanged"));
+
+        // The match is over and the room is back in the lobby
+        if (data.gameState.phase === "setup") {
+          setMultiplayerStep("lobby");
+          setRoomWasCreated(true);
+        }
       },
-      [updateGameStateFromServer, t],
+      [updateGameStateFromServer, setPrivateData, t],
+    ),
+  );
+
+  useTimerUpdated(
+    useCallback(
+      (data: TimerUpdatedData) => {
+        updateGameStateFromServer({ timer: data.timer });
+      },
+      [updateGameStateFromServer],
+    ),
+  );
+
+  useClueSubmitted(
+    useCallback(
+      (data: ClueSubmittedData) => {
+        updateGameStateFromServer({
+          clues: data.clues,
+          clueTurnIndex: data.clueTurnIndex,
+          timer: data.timer,
+        });
+      },
+      [updateGameStateFromServer],
+    ),
+  );
+
+  useImpostorGuessSubmitted(
+    useCallback(
+      (data: ImpostorGuessSubmittedData) => {
+        updateGameStateFromServer({ impostorGuesses: data.impostorGuesses });
+      },
+      [updateGameStateFromServer],
     ),
   );
 
@@ -159,16 +212,9 @@ export default function Game() {
 
   useVotingResults(
     useCallback(
-      (data: {
-        votingResults: unknown[];
-        winners: string[];
-        players: import("@/src/types/game").Player[];
-        impostors: import("@/src/types/game").Player[];
-        word: string;
-      }) => {
+      (data: VotingResultsData) => {
         updateGameStateFromServer({
-          votingResults:
-            data.votingResults as import("@/src/types/game").VotingResult[],
+          votingResults: data.votingResults,
           winners: data.winners,
           players: data.players,
         });
@@ -180,7 +226,7 @@ export default function Game() {
 
   useRoomClosed(
     useCallback(
-      (data: { message: string }) => {
+      (data: RoomClosedData) => {
         // Map server messages to translation keys
         let translatedMessage = data.message;
         if (data.message === "Host left the room") {
@@ -280,7 +326,7 @@ export default function Game() {
   };
 
   const handleCreateRoom = useCallback(
-    (hostName: string) => {
+    (hostName: string, access: RoomAccessOptions) => {
       // Called after host configures game settings
       if (!socketService.isConnected()) {
         socketService.connect();
@@ -293,7 +339,7 @@ export default function Game() {
       }
 
       function createRoomRequest(name: string) {
-        socketService.createRoom(name, response => {
+        socketService.createRoom(name, access, response => {
           if (response.success && response.roomCode && response.playerId) {
             setRoomData(
               response.roomCode,
@@ -302,6 +348,11 @@ export default function Game() {
               true,
             );
             updatePlayers(response.room!.players);
+            updateGameStateFromServer({
+              isPublic: response.room!.gameState.isPublic,
+              hasPassword: response.room!.gameState.hasPassword,
+              locked: false,
+            });
             toast.success(t("roomCreated", { code: response.roomCode }));
             setRoomWasCreated(true); // Mark room as created
             setMultiplayerStep("waiting");
@@ -311,7 +362,7 @@ export default function Game() {
         });
       }
     },
-    [setRoomData, updatePlayers, t],
+    [setRoomData, updatePlayers, updateGameStateFromServer, t],
   );
 
   const handleMultiplayerStart = async () => {
@@ -456,9 +507,14 @@ export default function Game() {
           ) : (
             <WordRevealPhase />
           ))}
+        {gameState.phase === "clues" && <CluePhase />}
         {gameState.phase === "discussion" && <DiscussionPhase />}
-        {gameState.phase === "voting" && <VotingPhase />}
+        {gameState.phase === "voting" && (
+          <VotingPhase key={gameState.voteRound} />
+        )}
+        {gameState.phase === "impostorguess" && <ImpostorGuessPhase />}
         {gameState.phase === "results" && <ResultsPhase />}
+        {gameState.phase === "standings" && <StandingsPhase />}
       </div>
 
       {/* Leave room confirmation dialog */}
@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Locale } from "@/src/config/language";
-import { FALLBACK_WORDS_WITH_HINTS } from "@/src/data/fallbackwords";
+import {
+  FALLBACK_WORD_PAIRS,
+  FALLBACK_WORDS_WITH_HINTS,
+} from "@/src/data/fallbackwords";
 import { openAIService } from "@/src/lib/openai-service";
 import { PromptEngine } from "@/src/lib/prompts";
 import { NextRequest, NextResponse } from "next/server";
@@ -39,12 +42,27 @@ function getClientIP(request: NextRequest): string {
   return cloudflareIP || realIP || forwarded?.split(",")[0] || "unknown";
 }
 
+// Built-in words with hints, or word pairs for the undercover variant
+function getFallbackWords(
+  category: string,
+  language: Locale,
+  pairs: boolean,
+): any[] | undefined {
+  const fallbacks = pairs ? FALLBACK_WORD_PAIRS : FALLBACK_WORDS_WITH_HINTS;
+  const fallbacksForLanguage = fallbacks[language as keyof typeof fallbacks];
+  if (!fallbacksForLanguage) return undefined;
+
+  return fallbacksForLanguage[
+    category.toLowerCase() as keyof typeof fallbacksForLanguage
+  ];
+}
+
 function validateInput(body: any): {
   isValid: boolean;
   error?: string;
   data?: any;
 } {
-  const { category, language, count, difficulty } = body;
+  const { category, language, count, difficulty, pairs } = body;
 
   if (!category || typeof category !== "string") {
     return {
@@ -68,6 +86,10 @@ function validateInput(body: any): {
     };
   }
 
+  if (pairs !== undefined && typeof pairs !== "boolean") {
+    return { isValid: false, error: "Pairs must be a boolean" };
+  }
+
   const sanitizedCategory = category.toLowerCase().trim();
   if (sanitizedCategory.length > 50) {
     return {
@@ -83,6 +105,7 @@ function validateInput(body: any): {
       language: language as Locale,
       count: Math.min(count, 15),
       difficulty: difficulty || "medium",
+      pairs: pairs === true,
     },
   };
 }
@@ -96,6 +119,7 @@ export async function POST(request: NextRequest) {
   let language: Locale = "en";
   let count = 1;
   let difficulty: Difficulty = "medium";
+  let pairs = false;
 
   try {
     // Validate and sanitize input first
@@ -107,7 +131,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Assign validated values
-    ({ category, language, count, difficulty } = validation.data!);
+    ({ category, language, count, difficulty, pairs } = validation.data!);
+    const wordsKey = pairs ? "wordPairs" : "wordsWithHints";
 
     // If OpenAI is not configured, use fallback words
     if (!openAIService) {
@@ -115,23 +140,7 @@ export async function POST(request: NextRequest) {
         `⚠️  OpenAI not configured, using fallback words for category "${category}" in ${language}`,
       );
 
-      const categoryKey = category.toLowerCase();
-      const fallbacksForLanguage =
-        FALLBACK_WORDS_WITH_HINTS[
-          language as keyof typeof FALLBACK_WORDS_WITH_HINTS
-        ];
-
-      if (!fallbacksForLanguage) {
-        return NextResponse.json(
-          {
-            error: `No fallback words available for language "${language}"`,
-          },
-          { status: 404 },
-        );
-      }
-
-      const fallbackWords =
-        fallbacksForLanguage[categoryKey as keyof typeof fallbacksForLanguage];
+      const fallbackWords = getFallbackWords(category, language, pairs);
 
       if (!fallbackWords || fallbackWords.length === 0) {
         return NextResponse.json(
@@ -150,7 +159,7 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json(
         {
-          wordsWithHints: selectedWords,
+          [wordsKey]: selectedWords,
           metadata: {
             category,
             language,
@@ -201,35 +210,60 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const prompt = PromptEngine.createPrompt({
+    const promptConfig = {
       category,
       language,
       count,
       difficulty,
-      culturalContext: "universal",
-    });
-
-    const result = await openAIService.generateWords(prompt, {});
+      culturalContext: "universal" as const,
+    };
+    let validWords: any[];
 
-    if (!PromptEngine.validateResponse(result, count)) {
-      throw new Error(
-        "Generated response does not match expected format or count",
+    if (pairs) {
+      const result = await openAIService.generateWordPairs(
+        PromptEngine.createPairPrompt(promptConfig),
       );
-    }
 
-    const wordsWithHints = result.wordsWithHints;
-    const validWords = wordsWithHints.filter((item: any) => {
-      const word = item.word.toLowerCase().trim();
-      const hints = item.hints;
+      if (!PromptEngine.validatePairResponse(result, count)) {
+        throw new Error(
+          "Generated response does not match expected format or count",
+        );
+      }
+
+      // A decoy containing the word (or the other way round) gives it away
+      validWords = result.wordPairs.filter(item => {
+        const word = item.word.toLowerCase().trim();
+        const decoy = item.decoy.toLowerCase().trim();
 
-      const wordInHints = hints.some(
-        (hint: string) =>
-          hint.toLowerCase().includes(word) ||
-          word.includes(hint.toLowerCase()),
+        return (
+          !word.includes(decoy) && !decoy.includes(word) && word.length > 1
+        );
+      });
+    } else {
+      const result = await openAIService.generateWords(
+        PromptEngine.createPrompt(promptConfig),
       );
 
-      return !wordInHints && word.length > 1;
-    });
+      if (!PromptEngine.validateResponse(result, count)) {
+        throw new Error(
+          "Generated response does not match expected format or count",
+        );
+      }
+
+      const wordsWithHints = result.wordsWithHints;
+      validWords = wordsWithHints.filter((item: any) => {
+        const word = item.word.toLowerCase().trim();
+        const hints = item.hints;
+
+        const wordInHints = hints.some(
+          (hint: string) =>
+            hint.toLowerCase().includes(word) ||
+            word.includes(hint.toLowerCase()),
+        );
+
+        return !wordInHints && word.length > 1;
+      });
+    }
 
     if (validWords.length < Math.ceil(count * 0.8)) {
       throw new Error("Generated words quality below threshold");
@@ -240,7 +274,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(
       {
-        wordsWithHints: finalWords, // Ensure exact count
+        [wordsKey]: finalWords, // Ensure exact count
         metadata: {
           category,
           language,
@@ -270,46 +304,37 @@ export async function POST(request: NextRequest) {
     const isAPIError = errorMessage.includes("OpenRouter API error");
     const isRateLimitError = errorMessage.includes("rate limit");
 
-    const categoryKey = category.toLowerCase();
-    const fallbacksForLanguage =
-      FALLBACK_WORDS_WITH_HINTS[
-        language as keyof typeof FALLBACK_WORDS_WITH_HINTS
-      ];
-
-    if (fallbacksForLanguage) {
-      const fallbackWords =
-        fallbacksForLanguage[categoryKey as keyof typeof fallbacksForLanguage];
+    const fallbackWords = getFallbackWords(category, language, pairs);
 
-      if (fallbackWords && fallbackWords.length > 0) {
-        const selectedWords = fallbackWords
-          .sort(() => Math.random() - 0.5)
-          .slice(0, count);
+    if (fallbackWords && fallbackWords.length > 0) {
+      const selectedWords = [...fallbackWords]
+        .sort(() => Math.random() - 0.5)
+        .slice(0, count);
 
-        return NextResponse.json(
-          {
-            wordsWithHints: selectedWords,
-            metadata: {
-              category,
-              language,
-              difficulty,
-              generatedAt: new Date().toISOString(),
-              responseTime,
-              requestedCount: count,
-              actualCount: selectedWords.length,
-              source: "fallback",
-              apiError: errorMessage,
-            },
+      return NextResponse.json(
+        {
+          [pairs ? "wordPairs" : "wordsWithHints"]: selectedWords,
+          metadata: {
+            category,
+            language,
+            difficulty,
+            generatedAt: new Date().toISOString(),
+            responseTime,
+            requestedCount: count,
+            actualCount: selectedWords.length,
+            source: "fallback",
+            apiError: errorMessage,
           },
-          {
-            headers: {
-              "Cache-Control":
-                "public, s-maxage=1800, stale-while-revalidate=3600",
-              "Content-Type": "application/json",
-              "X-Response-Time": responseTime.toString(),
-            },
+        },
+        {
+          headers: {
+            "Cache-Control":
+              "public, s-maxage=1800, stale-while-revalidate=3600",
+            "Content-Type": "application/json",
+            "X-Response-Time": responseTime.toString(),
           },
-        );
-      }
+        },
+      );
     }
 
     // If no fallback words available, return error
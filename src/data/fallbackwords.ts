@@ -1831,3 +1831,194 @@ export const FALLBACK_WORDS_WITH_HINTS = {
     ],
   },
 };
+
+// Secret words with a close decoy for undercover impostors, used when the
+// AI service isn't available
+export const FALLBACK_WORD_PAIRS = {
+  en: {
+    animals: [
+      { word: "lion", decoy: "tiger" },
+      { word: "dolphin", decoy: "whale" },
+      { word: "horse", decoy: "donkey" },
+      { word: "wolf", decoy: "fox" },
+      { word: "crocodile", decoy: "alligator" },
+      { word: "rabbit", decoy: "hare" },
+      { word: "eagle", decoy: "hawk" },
+      { word: "frog", decoy: "toad" },
+    ],
+    food: [
+      { word: "pizza", decoy: "flatbread" },
+      { word: "burger", decoy: "sandwich" },
+      { word: "pancake", decoy: "waffle" },
+      { word: "spaghetti", decoy: "noodles" },
+      { word: "butter", decoy: "margarine" },
+      { word: "cupcake", decoy: "muffin" },
+      { word: "lemon", decoy: "lime" },
+      { word: "jam", decoy: "honey" },
+    ],
+    objects: [
+      { word: "hammer", decoy: "mallet" },
+      { word: "pen", decoy: "pencil" },
+      { word: "chair", decoy: "stool" },
+      { word: "spoon", decoy: "fork" },
+      { word: "umbrella", decoy: "raincoat" },
+      { word: "candle", decoy: "lamp" },
+      { word: "backpack", decoy: "suitcase" },
+      { word: "clock", decoy: "watch" },
+    ],
+    movies: [
+      { word: "titanic", decoy: "avatar" },
+      { word: "star wars", decoy: "star trek" },
+      { word: "batman", decoy: "superman" },
+      { word: "frozen", decoy: "moana" },
+      { word: "jaws", decoy: "piranha" },
+      { word: "shrek", decoy: "madagascar" },
+      { word: "rocky", decoy: "creed" },
+      { word: "alien", decoy: "predator" },
+    ],
+    places: [
+      { word: "library", decoy: "bookstore" },
+      { word: "beach", decoy: "lake" },
+      { word: "hospital", decoy: "pharmacy" },
+      { word: "airport", decoy: "train station" },
+      { word: "museum", decoy: "gallery" },
+      { word: "castle", decoy: "palace" },
+      { word: "stadium", decoy: "arena" },
+      { word: "bakery", decoy: "cafe" },
+    ],
+    professions: [
+      { word: "chef", decoy: "baker" },
+      { word: "doctor", decoy: "nurse" },
+      { word: "pilot", decoy: "astronaut" },
+      { word: "teacher", decoy: "professor" },
+      { word: "firefighter", decoy: "police officer" },
+      { word: "plumber", decoy: "electrician" },
+      { word: "singer", decoy: "actor" },
+      { word: "lawyer", decoy: "judge" },
+    ],
+  },
+  de: {
+    animals: [
+      { word: "Löwe", decoy: "Tiger" },
+      { word: "Delfin", decoy: "Wal" },
+      { word: "Pferd", decoy: "Esel" },
+      { word: "Wolf", decoy: "Fuchs" },
+      { word: "Krokodil", decoy: "Alligator" },
+      { word: "Kaninchen", decoy: "Hase" },
+      { word: "Adler", decoy: "Falke" },
+      { word: "Frosch", decoy: "Kröte" },
+    ],
+    food: [
+      { word: "Pizza", decoy: "Flammkuchen" },
+      { word: "Burger", decoy: "Sandwich" },
+      { word: "Pfannkuchen", decoy: "Waffel" },
+      { word: "Spaghetti", decoy: "Nudeln" },
+      { word: "Butter", decoy: "Margarine" },
+      { word: "Brezel", decoy: "Brötchen" },
+      { word: "Zitrone", decoy: "Limette" },
+      { word: "Marmelade", decoy: "Honig" },
+    ],
+    objects: [
+      { word: "Hammer", decoy: "Schlägel" },
+      { word: "Kugelschreiber", decoy: "Bleistift" },
+      { word: "Stuhl", decoy: "Hocker" },
+      { word: "Löffel", decoy: "Gabel" },
+      { word: "Regenschirm", decoy: "Regenjacke" },
+      { word: "Kerze", decoy: "Lampe" },
+      { word: "Rucksack", decoy: "Koffer" },
+      { word: "Uhr", decoy: "Wecker" },
+    ],
+    movies: [
+      { word: "Titanic", decoy: "Avatar" },
+      { word: "Star Wars", decoy: "Star Trek" },
+      { word: "Batman", decoy: "Superman" },
+      { word: "Die Eiskönigin", decoy: "Vaiana" },
+      { word: "Der weiße Hai", decoy: "Piranha" },
+      { word: "Shrek", decoy: "Madagascar" },
+      { word: "Rocky", decoy: "Creed" },
+      { word: "Alien", decoy: "Predator" },
+    ],
+    places: [
+      { word: "Bibliothek", decoy: "Buchhandlung" },
+      { word: "Strand", decoy: "See" },
+      { word: "Krankenhaus", decoy: "Apotheke" },
+      { word: "Flughafen", decoy: "Bahnhof" },
+      { word: "Museum", decoy: "Galerie" },
+      { word: "Burg", decoy: "Schloss" },
+      { word: "Stadion", decoy: "Arena" },
+      { word: "Bäckerei", decoy: "Café" },
+    ],
+    professions: [
+      { word: "Koch", decoy: "Bäcker" },
+      { word: "Arzt", decoy: "Krankenpfleger" },
+      { word: "Pilot", decoy: "Astronaut" },
+      { word: "Lehrer", decoy: "Professor" },
+      { word: "Feuerwehrmann", decoy: "Polizist" },
+      { word: "Klempner", decoy: "Elektriker" },
+      { word: "Sänger", decoy: "Schauspieler" },
+      { word: "Anwalt", decoy: "Richter" },
+    ],
+  },
+  es: {
+    animals: [
+      { word: "león", decoy: "tigre" },
+      { word: "delfín", decoy: "ballena" },
+      { word: "caballo", decoy: "burro" },
+      { word: "lobo", decoy: "zorro" },
+      { word: "cocodrilo", decoy: "caimán" },
+      { word: "conejo", decoy: "liebre" },
+      { word: "águila", decoy: "halcón" },
+      { word: "rana", decoy: "sapo" },
+    ],
+    food: [
+      { word: "pizza", decoy: "empanada" },
+      { word: "hamburguesa", decoy: "sándwich" },
+      { word: "tortita", decoy: "gofre" },
+      { word: "espaguetis", decoy: "fideos" },
+      { word: "mantequilla", decoy: "margarina" },
+      { word: "magdalena", decoy: "bizcocho" },
+      { word: "limón", decoy: "lima" },
+      { word: "mermelada", decoy: "miel" },
+    ],
+    objects: [
+      { word: "martillo", decoy: "mazo" },
+      { word: "bolígrafo", decoy: "lápiz" },
+      { word: "silla", decoy: "taburete" },
+      { word: "cuchara", decoy: "tenedor" },
+      { word: "paraguas", decoy: "impermeable" },
+      { word: "vela", decoy: "lámpara" },
+      { word: "mochila", decoy: "maleta" },
+      { word: "reloj", decoy: "despertador" },
+    ],
+    movies: [
+      { word: "titanic", decoy: "avatar" },
+      { word: "star wars", decoy: "star trek" },
+      { word: "batman", decoy: "superman" },
+      { word: "frozen", decoy: "vaiana" },
+      { word: "tiburón", decoy: "piraña" },
+      { word: "shrek", decoy: "madagascar" },
+      { word: "rocky", decoy: "creed" },
+      { word: "alien", decoy: "depredador" },
+    ],
+    places: [
+      { word: "biblioteca", decoy: "librería" },
+      { word: "playa", decoy: "lago" },
+      { word: "hospital", decoy: "farmacia" },
+      { word: "aeropuerto", decoy: "estación de tren" },
+      { word: "museo", decoy: "galería" },
+      { word: "castillo", decoy: "palacio" },
+      { word: "estadio", decoy: "pabellón" },
+      { word: "panadería", decoy: "cafetería" },
+    ],
+    professions: [
+      { word: "chef", decoy: "panadero" },
+      { word: "médico", decoy: "enfermero" },
+      { word: "piloto", decoy: "astronauta" },
+      { word: "maestro", decoy: "profesor" },
+      { word: "bombero", decoy: "policía" },
+      { word: "fontanero", decoy: "electricista" },
+      { word: "cantante", decoy: "actor" },
+      { word: "abogado", decoy: "juez" },
+    ],
+  },
+};
@@ -2,7 +2,21 @@
 
 import { socketService } from "../lib/socket-service";
 import { useGameStore } from "../stores/game-store";
-import type { GameState, Player, NotificationData } from "../types/game";
+import type {
+  ClueSubmittedData,
+  GameStartedData,
+  ImpostorGuessSubmittedData,
+  ImpostorRevealedData,
+  NotificationData,
+  PhaseChangedData,
+  PlayerConnectedData,
+  PlayerUpdatedData,
+  RoomClosedData,
+  RoomRejoinedData,
+  TimerUpdatedData,
+  VotingResultsData,
+} from "../types/game";
+import type { ServerToClientEvents } from "../types/socket-events";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 
@@ -41,18 +55,12 @@ export function useSocket() {
 
     // Handle room rejoin success
     const handleRoomRejoined = (event: Event) => {
-      const customEvent = event as CustomEvent<{
-        room: {
-          code: string;
-          hostId: string;
-          players: Player[];
-          gameState: GameState;
-        };
-        playerId: string;
-        isReconnection: boolean;
-      }>;
+      const customEvent = event as CustomEvent<
+        RoomRejoinedData & { isReconnection: boolean }
+      >;
 
-      const { room, playerId, isReconnection } = customEvent.detail;
+      const { room, privateData, playerId, isReconnection } =
+        customEvent.detail;
       console.log("Room rejoined successfully", {
         isReconnection,
         roomCode: room.code,
@@ -60,7 +68,7 @@ export function useSocket() {
         hostId: room.hostId,
         playersCount: room.players.length,
         phase: room.gameState.phase,
-        newPlayerId: playerId,
+        playerId,
       });
 
       // Update game store with rejoined room data
@@ -71,6 +79,7 @@ export function useSocket() {
       setRoomData(room.code, playerId, room.hostId, playerId === room.hostId);
       updateGameStateFromServer({ ...room.gameState, isMultiplayer: true });
       updatePlayers(room.players);
+      useGameStore.getState().setPrivateData(privateData ?? null);
 
       // Only show toast for actual reconnections, not initial page loads
       if (isReconnection) {
@@ -119,29 +128,23 @@ export function useSocket() {
   return { isConnected, socketService };
 }
 
-export function useSocketEvent<T = unknown>(
-  event: string,
-  callback: (data: T) => void,
+export function useSocketEvent<E extends keyof ServerToClientEvents>(
+  event: E,
+  callback: ServerToClientEvents[E],
 ) {
   useEffect(() => {
     const socket = socketService.getSocket();
 
-    socket.on(event, callback);
+    socket.on<keyof ServerToClientEvents>(event, callback);
 
     return () => {
-      socket.off(event, callback);
+      socketService.removeListener(event, callback);
     };
   }, [event, callback]);
 }
 
 // Specific event hooks
-export function usePlayerJoined(
-  callback: (data: {
-    playerId: string;
-    playerName: string;
-    players: Player[];
-  }) => void,
-) {
+export function usePlayerJoined(callback: (data: PlayerConnectedData) => void) {
   useEffect(() => {
     socketService.onPlayerJoined(callback);
     return () => {
@@ -150,9 +153,7 @@ export function usePlayerJoined(
   }, [callback]);
 }
 
-export function usePlayerLeft(
-  callback: (data: { playerId: string; players: Player[] }) => void,
-) {
+export function usePlayerLeft(callback: (data: PlayerUpdatedData) => void) {
   useEffect(() => {
     socketService.onPlayerLeft(callback);
     return () => {
@@ -161,9 +162,7 @@ export function usePlayerLeft(
   }, [callback]);
 }
 
-export function useGameStarted(
-  callback: (data: { gameState: GameState }) => void,
-) {
+export function useGameStarted(callback: (data: GameStartedData) => void) {
   useEffect(() => {
     socketService.onGameStarted(callback);
     return () => {
@@ -172,9 +171,7 @@ export function useGameStarted(
   }, [callback]);
 }
 
-export function usePhaseChanged(
-  callback: (data: { phase: GameState["phase"]; gameState: GameState }) => void,
-) {
+export function usePhaseChanged(callback: (data: PhaseChangedData) => void) {
   useEffect(() => {
     socketService.onPhaseChanged(callback);
     return () => {
@@ -183,8 +180,26 @@ export function usePhaseChanged(
   }, [callback]);
 }
 
+export function useTimerUpdated(callback: (data: TimerUpdatedData) => void) {
+  useEffect(() => {
+    socketService.onTimerUpdated(callback);
+    return () => {
+      socketService.removeListener("timer-updated", callback);
+    };
+  }, [callback]);
+}
+
+export function useClueSubmitted(callback: (data: ClueSubmittedData) => void) {
+  useEffect(() => {
+    socketService.onClueSubmitted(callback);
+    return () => {
+      socketService.removeListener("clue-submitted", callback);
+    };
+  }, [callback]);
+}
+
 export function useImpostorRevealed(
-  callback: (data: { impostors: Player[]; word: string }) => void,
+  callback: (data: ImpostorRevealedData) => void,
 ) {
   useEffect(() => {
     socketService.onImpostorRevealed(callback);
@@ -194,15 +209,7 @@ export function useImpostorRevealed(
   }, [callback]);
 }
 
-export function useVotingResults(
-  callback: (data: {
-    votingResults: unknown[];
-    winners: string[];
-    players: Player[];
-    impostors: Player[];
-    word: string;
-  }) => void,
-) {
+export function useVotingResults(callback: (data: VotingResultsData) => void) {
   useEffect(() => {
     socketService.onVotingResults(callback);
     return () => {
@@ -211,7 +218,18 @@ export function useVotingResults(
   }, [callback]);
 }
 
-export function useRoomClosed(callback: (data: { message: string }) => void) {
+export function useImpostorGuessSubmitted(
+  callback: (data: ImpostorGuessSubmittedData) => void,
+) {
+  useEffect(() => {
+    socketService.onImpostorGuessSubmitted(callback);
+    return () => {
+      socketService.removeListener("impostor-guess-submitted", callback);
+    };
+  }, [callback]);
+}
+
+export function useRoomClosed(callback: (data: RoomClosedData) => void) {
   useEffect(() => {
     socketService.onRoomClosed(callback);
     return () => {
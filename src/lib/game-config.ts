@@ -0,0 +1,29 @@
+import type { Locale } from "../config/language";
+import type { GameConfig, GameState } from "../types/game";
+import { DEFAULT_MAX_PLAYERS, MIN_ROOM_PLAYERS } from "./room-limits";
+import { DEFAULT_SCORING_RULES } from "./scoring";
+
+// The settings the server needs to deal a round, taken from the host's state
+export function getGameConfig(
+  gameState: GameState,
+  language: Locale,
+): GameConfig {
+  return {
+    selectedCategories: gameState.selectedCategories,
+    difficulty: gameState.difficulty,
+    showHintsToImpostors: gameState.showHintsToImpostors,
+    undercover: gameState.undercover ?? false,
+    specialRoles: gameState.specialRoles ?? [],
+    impostorTeam: gameState.impostorTeam ?? false,
+    clueRound: gameState.clueRound ?? false,
+    impostorCount: gameState.impostorCount,
+    minPlayers: gameState.minPlayers ?? MIN_ROOM_PLAYERS,
+    maxPlayers: gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS,
+    language,
+    discussionDuration: gameState.discussionDuration ?? 0,
+    votingDuration: gameState.votingDuration ?? 0,
+    scoringRules: gameState.scoringRules ?? DEFAULT_SCORING_RULES,
+    matchRounds: gameState.matchRounds ?? 1,
+    votingMode: gameState.votingMode ?? "plurality",
+  };
+}
@@ -1,4 +1,4 @@
-import { WordWithHints } from "@/src/types/game";
+import { WordPair, WordWithHints } from "@/src/types/game";
 import { OpenRouter } from "@openrouter/sdk";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -26,9 +26,19 @@ export class OpenAIService {
 
   async generateWords(
     prompt: string,
-    schema: any,
-    retryCount = 0,
   ): Promise<{ wordsWithHints: WordWithHints[] }> {
+    return this.complete(prompt, this.getSystemPrompt());
+  }
+
+  async generateWordPairs(prompt: string): Promise<{ wordPairs: WordPair[] }> {
+    return this.complete(prompt, this.getPairSystemPrompt());
+  }
+
+  private async complete(
+    prompt: string,
+    systemPrompt: string,
+    retryCount = 0,
+  ): Promise<any> {
     const maxRetries = this.config.fallbackModel ? 1 : 0;
     const currentModel =
       retryCount === 0 ? this.config.model : this.config.fallbackModel!;
@@ -40,7 +50,7 @@ export class OpenAIService {
           messages: [
             {
               role: "system",
-              content: this.getSystemPrompt(),
+              content: systemPrompt,
             },
             {
               role: "user",
@@ -88,7 +98,7 @@ export class OpenAIService {
         console.log(
           `Retrying with fallback model: ${this.config.fallbackModel}`,
         );
-        return this.generateWords(prompt, schema, retryCount + 1);
+        return this.complete(prompt, systemPrompt, retryCount + 1);
       }
 
       throw formattedError;
@@ -120,6 +130,24 @@ For "elephant" in English:
 - Hint 2: "peanut"
 - Hint 3: "ears"
 
+Always respond with valid JSON matching the requested schema. No additional text or explanations.`;
+  }
+
+  private getPairSystemPrompt(): string {
+    return `You are an expert game designer creating word pairs for a party game similar to "Undercover".
+
+CRITICAL REQUIREMENTS:
+1. Generate EXACTLY the requested number of pairs
+2. Each pair has a secret word and a decoy word from the same category
+3. The decoy must be close enough to pass for the secret word in a vague description
+4. Response must be valid JSON with the exact structure specified
+5. Words should be common enough that most people know them
+6. Avoid proper nouns unless universally known
+
+EXAMPLE:
+For "lion" in English the decoy could be "tiger": both are big cats, but
+"mane" only fits the lion and "stripes" only fits the tiger.
+
 Always respond with valid JSON matching the requested schema. No additional text or explanations.`;
   }
 
@@ -0,0 +1,7 @@
+import type { Player } from "../types/game";
+
+// Whether a player takes part in the current round. Spectators who joined
+// mid-game and players ejected in an elimination game only watch.
+export function isPlaying(player: Player): boolean {
+  return !player.isSpectator && player.isAlive !== false;
+}
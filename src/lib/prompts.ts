@@ -15,6 +15,7 @@ export class PromptEngine {
       name: "English",
       culturalNote:
         "Focus on universally known terms in English-speaking countries.",
+      pairExample: { word: "lion", decoy: "tiger" },
       examples: {
         animals: {
           word: "elephant",
@@ -42,6 +43,7 @@ export class PromptEngine {
       name: "German",
       culturalNote:
         "Fokussiere auf universell bekannte Begriffe im deutschsprachigen Raum.",
+      pairExample: { word: "Löwe", decoy: "Tiger" },
       examples: {
         animals: {
           word: "Elefant",
@@ -69,6 +71,7 @@ export class PromptEngine {
       name: "Spanish",
       culturalNote:
         "Enfócate en términos universalmente conocidos en países de habla hispana.",
+      pairExample: { word: "león", decoy: "tigre" },
       examples: {
         animals: {
           word: "elefante",
@@ -201,6 +204,89 @@ Generate exactly ${
 }`;
   }
 
+  // Secret words with a decoy for the undercover variant. The decoy has to be
+  // close enough that a player holding it doesn't notice at first.
+  static createPairPrompt(config: PromptConfig): string {
+    const langConfig = PromptEngine.LANGUAGE_CONFIGS[config.language];
+    const difficultyMod =
+      PromptEngine.DIFFICULTY_MODIFIERS[config.difficulty || "medium"];
+    const categoryContext =
+      PromptEngine.CATEGORY_CONTEXTS[
+        config.category.toLowerCase() as keyof typeof PromptEngine.CATEGORY_CONTEXTS
+      ] || null;
+    const exampleJson = JSON.stringify(
+      { wordPairs: [langConfig.pairExample] },
+      null,
+      2,
+    );
+
+    return `Generate ${config.count} word pairs for the category "${
+      config.category
+    }" in ${langConfig.name}.
+
+CATEGORY CONTEXT: ${
+      categoryContext || "Generate appropriate words for this category."
+    }
+
+DIFFICULTY LEVEL: ${difficultyMod}
+
+CULTURAL CONSIDERATION: ${langConfig.culturalNote}
+
+GAME CONTEXT:
+Most players get the secret word. A few players get the decoy word instead
+and don't know their word is different. Everyone describes their word
+without saying it, and the players have to find out who holds the decoy.
+
+WORD SELECTION CRITERIA:
+- Both words must be nouns (things, not actions or descriptions)
+- Both words must belong to the category
+- Avoid abbreviations, acronyms, or technical jargon
+- Ensure words are spell-able and pronounceable
+- Ensure words are culturally relevant to the specified language
+
+DECOY RULES:
+1. The decoy must be semantically close to the secret word, so that most
+   descriptions of one could fit the other
+2. The decoy must still be a different thing, not a synonym or a spelling
+   variant
+3. Neither word may contain the other
+4. Prefer pairs that share a setting, use or appearance
+
+EXAMPLE FORMAT:
+${exampleJson}
+
+Generate exactly ${
+      config.count
+    } pairs following this structure. Respond only with valid JSON in this exact format:
+
+{
+  "wordPairs": [
+    {
+      "word": "example",
+      "decoy": "sample"
+    }
+  ]
+}`;
+  }
+
+  static validatePairResponse(response: any, expectedCount: number): boolean {
+    if (!response?.wordPairs || !Array.isArray(response.wordPairs)) {
+      return false;
+    }
+
+    if (response.wordPairs.length !== expectedCount) {
+      return false;
+    }
+
+    return response.wordPairs.every(
+      (item: any) =>
+        typeof item.word === "string" &&
+        item.word.trim().length > 0 &&
+        typeof item.decoy === "string" &&
+        item.decoy.trim().length > 0,
+    );
+  }
+
   static validateResponse(response: any, expectedCount: number): boolean {
     if (!response?.wordsWithHints || !Array.isArray(response.wordsWithHints)) {
       return false;
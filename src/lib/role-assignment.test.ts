@@ -0,0 +1,83 @@
+import type { Player } from "../types/game";
+import { assignRoles, createRandom, shuffle } from "./role-assignment";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+const players: Player[] = ["a", "b", "c", "d", "e", "f"].map(id => ({
+  id,
+  name: id.toUpperCase(),
+  role: "player",
+}));
+
+const describeRoles = (assigned: Player[]) =>
+  assigned.map(p => `${p.id}:${p.role}:${p.specialRole ?? "-"}`);
+
+describe("createRandom", () => {
+  test("repeats its numbers for the same seed", () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const numbers = Array.from({ length: 5 }, () => first());
+
+    assert.deepEqual(
+      Array.from({ length: 5 }, () => second()),
+      numbers,
+    );
+    numbers.forEach(n => assert.ok(n >= 0 && n < 1));
+  });
+
+  test("falls back to Math.random without a seed", () => {
+    assert.equal(createRandom(), Math.random);
+  });
+});
+
+describe("shuffle", () => {
+  test("orders the items the same way for the same seed", () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+
+    assert.deepEqual(
+      shuffle(items, createRandom(7)),
+      shuffle(items, createRandom(7)),
+    );
+    assert.deepEqual(
+      [...shuffle(items, createRandom(7))].sort((a, b) => a - b),
+      items,
+    );
+  });
+});
+
+describe("assignRoles", () => {
+  const options = {
+    impostorCount: 2,
+    specialRoles: ["jester" as const, "detective" as const],
+    recentImpostorIds: [["a"], ["b", "c"]],
+  };
+
+  test("deals the same roles for the same seed", () => {
+    for (const seed of [1, 2, 3, 1234]) {
+      assert.deepEqual(
+        describeRoles(assignRoles(players, { ...options, seed })),
+        describeRoles(assignRoles(players, { ...options, seed })),
+      );
+    }
+  });
+
+  test("deals different roles for different seeds", () => {
+    const outcomes = new Set(
+      Array.from({ length: 20 }, (_, seed) =>
+        describeRoles(assignRoles(players, { ...options, seed })).join(","),
+      ),
+    );
+    assert.ok(outcomes.size > 1);
+  });
+
+  test("deals the requested roles", () => {
+    const assigned = assignRoles(players, { ...options, seed: 5 });
+
+    assert.equal(assigned.filter(p => p.role === "impostor").length, 2);
+    assert.equal(
+      assigned.find(p => p.specialRole === "detective")?.role,
+      "player",
+    );
+    assert.equal(assigned.filter(p => p.specialRole).length, 2);
+  });
+});
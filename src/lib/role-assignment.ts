@@ -0,0 +1,130 @@
+import type { Player, SpecialRole } from "../types/game";
+import { ROLE_DEFINITIONS } from "./roles";
+
+// How many past rounds count against a player being impostor again
+export const RECENT_ROUNDS = 3;
+
+export interface RoleAssignmentOptions {
+  impostorCount: number;
+  specialRoles?: SpecialRole[];
+  recentImpostorIds?: string[][]; // Most recent round first
+  seed?: number; // Same seed, same players and history: same roles
+}
+
+// Math.random, or a seeded generator (mulberry32) when a seed is given
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined) return Math.random;
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates: every order is equally likely
+export function shuffle<T>(items: T[], random = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Each recent round as impostor halves a player's chance; the last round
+// counts twice, so back-to-back impostor rounds get rare
+function getImpostorWeight(playerId: string, history: string[][]): number {
+  let weight = 1;
+  history.slice(0, RECENT_ROUNDS).forEach((impostorIds, roundsAgo) => {
+    if (impostorIds.includes(playerId)) weight /= roundsAgo === 0 ? 4 : 2;
+  });
+  return weight;
+}
+
+// Draws `count` players without replacement, each draw proportional to the
+// remaining players' weights
+function pickWeighted(
+  players: Player[],
+  weights: Map<string, number>,
+  count: number,
+  random: () => number,
+): Player[] {
+  const remaining = [...players];
+  const picked: Player[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    const total = remaining.reduce((sum, p) => sum + weights.get(p.id)!, 0);
+    let target = random() * total;
+    let index = remaining.findIndex(p => {
+      target -= weights.get(p.id)!;
+      return target < 0;
+    });
+    // Rounding can leave a sliver past the last player
+    if (index === -1) index = remaining.length - 1;
+
+    picked.push(remaining[index]);
+    remaining.splice(index, 1);
+  }
+
+  return picked;
+}
+
+/**
+ * Deals a round's roles. Impostors are drawn at random, weighted against
+ * players who were impostor in the last few rounds. Every enabled special
+ * role then goes to a random player of its side without one, if there is
+ * any. Returns copies of the players; everyone not picked is a regular
+ * player again.
+ */
+export function assignRoles(
+  players: Player[],
+  options: RoleAssignmentOptions,
+): Player[] {
+  const random = createRandom(options.seed);
+  const history = options.recentImpostorIds || [];
+  const impostorCount = Math.max(
+    0,
+    Math.min(options.impostorCount, players.length - 1),
+  );
+
+  const weights = new Map(
+    players.map(p => [p.id, getImpostorWeight(p.id, history)]),
+  );
+  // Shuffled first so the list order doesn't matter either
+  const impostorIds = new Set(
+    pickWeighted(shuffle(players, random), weights, impostorCount, random).map(
+      p => p.id,
+    ),
+  );
+
+  const assigned: Player[] = players.map(p => ({
+    ...p,
+    role: impostorIds.has(p.id) ? "impostor" : "player",
+    specialRole: undefined,
+  }));
+
+  (options.specialRoles || []).forEach(specialRole => {
+    const [player] = shuffle(
+      assigned.filter(
+        p => p.role === ROLE_DEFINITIONS[specialRole].side && !p.specialRole,
+      ),
+      random,
+    );
+    if (player) player.specialRole = specialRole;
+  });
+
+  return assigned;
+}
+
+// Adds a round's impostors to the front of the history, keeping it short
+export function recordImpostors(
+  history: string[][] | undefined,
+  players: Player[],
+): string[][] {
+  const impostorIds = players.filter(p => p.role === "impostor").map(p => p.id);
+  return [impostorIds, ...(history || [])].slice(0, RECENT_ROUNDS);
+}
@@ -0,0 +1,56 @@
+import type { Player, SpecialRole } from "../types/game";
+
+/**
+ * What a special role changes for the player who has it. Every special role
+ * is dealt on top of a side (regular player or impostor), so code that only
+ * cares about sides can keep looking at `role`.
+ */
+export interface RoleDefinition {
+  side: Player["role"]; // Dealt to regular players or to impostors
+  neutral?: boolean; // Neither wins nor loses with their side
+  knowsNothing?: boolean; // Gets no word, hints, decoy or teammates
+  canInvestigate?: boolean; // May privately check one player per vote
+  // Win-condition hook, checked after each vote: the player wins the round
+  // on their own, whatever the teams did
+  winsAlone?: (player: Player, ejectedIds: string[]) => boolean;
+}
+
+export const SPECIAL_ROLES: SpecialRole[] = ["jester", "detective", "mrwhite"];
+
+export const ROLE_DEFINITIONS: Record<SpecialRole, RoleDefinition> = {
+  // Wants to be voted out
+  jester: {
+    side: "player",
+    neutral: true,
+    winsAlone: (player, ejectedIds) => ejectedIds.includes(player.id),
+  },
+  detective: { side: "player", canInvestigate: true },
+  // An impostor nobody told anything
+  mrwhite: { side: "impostor", knowsNothing: true },
+};
+
+export function getRoleDefinition(
+  player: Pick<Player, "specialRole">,
+): RoleDefinition | undefined {
+  return player.specialRole ? ROLE_DEFINITIONS[player.specialRole] : undefined;
+}
+
+// Players whose role wins them the round on their own after this vote
+export function getSoloWinners(
+  players: Player[],
+  ejectedIds: string[],
+): string[] {
+  return players
+    .filter(p => getRoleDefinition(p)?.winsAlone?.(p, ejectedIds))
+    .map(p => p.id);
+}
+
+// The players who share their side's win
+export function getTeamWinners(
+  players: Player[],
+  side: Player["role"],
+): string[] {
+  return players
+    .filter(p => p.role === side && !getRoleDefinition(p)?.neutral)
+    .map(p => p.id);
+}
@@ -0,0 +1,31 @@
+// How many players a multiplayer room takes, shared by the server checks and
+// the lobby that explains them
+export const MIN_ROOM_PLAYERS = 3;
+export const MAX_ROOM_PLAYERS = 30;
+export const DEFAULT_MAX_PLAYERS = 10;
+
+export type StartBlocker =
+  | { reason: "notEnoughPlayers"; minPlayers: number }
+  | { reason: "tooManyImpostors"; maxImpostors: number };
+
+// One impostor for every three players, as in local games
+export function getMaxImpostors(playerCount: number): number {
+  return Math.max(1, Math.floor(playerCount / 3));
+}
+
+// Why a round can't be dealt to these players, or null if it can
+export function getStartBlocker(
+  playerCount: number,
+  impostorCount: number,
+  minPlayers: number = MIN_ROOM_PLAYERS,
+): StartBlocker | null {
+  if (playerCount < minPlayers) {
+    return { reason: "notEnoughPlayers", minPlayers };
+  }
+
+  const maxImpostors = getMaxImpostors(playerCount);
+  if (impostorCount > maxImpostors) {
+    return { reason: "tooManyImpostors", maxImpostors };
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import type { GameState, ScoringRules } from "../types/game";
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  winPoints: 1,
+  correctVotePoints: 1,
+  wrongVotePenalty: 1,
+  impostorSurvivalBonus: 2,
+  guessMultiplier: 2,
+};
+
+export const MAX_RULE_POINTS = 10;
+export const MAX_GUESS_MULTIPLIER = 5;
+
+/**
+ * Points each player scores in a round that has been decided, i.e. after
+ * voting and any last-chance guesses.
+ */
+export function calculateRoundPoints(
+  gameState: Pick<
+    GameState,
+    "players" | "votes" | "winners" | "caughtImpostorIds" | "impostorGuesses"
+  >,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): Map<string, number> {
+  const impostorIds = new Set(
+    gameState.players.filter(p => p.role === "impostor").map(p => p.id),
+  );
+  const points = new Map(gameState.players.map(p => [p.id, 0]));
+  const add = (playerId: string, amount: number) => {
+    const current = points.get(playerId);
+    if (current !== undefined) points.set(playerId, current + amount);
+  };
+
+  (gameState.winners || []).forEach(id => add(id, rules.winPoints));
+
+  // Only regular players are rewarded or penalized for their votes
+  (gameState.votes || []).forEach(vote => {
+    if (impostorIds.has(vote.voterId)) return;
+    add(
+      vote.voterId,
+      impostorIds.has(vote.votedForId)
+        ? rules.correctVotePoints
+        : -rules.wrongVotePenalty,
+    );
+  });
+
+  impostorIds.forEach(id => {
+    if (!gameState.caughtImpostorIds?.includes(id)) {
+      add(id, rules.impostorSurvivalBonus);
+    }
+  });
+
+  (gameState.impostorGuesses || [])
+    .filter(guess => guess.correct)
+    .forEach(guess => {
+      const current = points.get(guess.playerId);
+      if (current !== undefined) {
+        points.set(guess.playerId, current * rules.guessMultiplier);
+      }
+    });
+
+  return points;
+}
@@ -1,14 +1,45 @@
 import type {
+  ChatChannel,
+  ChatMessage,
+  ClueSubmittedData,
   CreateRoomData,
   JoinRoomData,
-  GameState,
-  Player,
+  GameConfig,
+  HostPhaseChange,
+  GameStartedData,
+  ImpostorGuessSubmittedData,
+  ImpostorRevealedData,
+  Investigation,
+  JoinQueueData,
   NotificationData,
+  PhaseChangedData,
+  PlayerConnectedData,
+  PlayerKickedData,
+  PlayerUpdatedData,
+  PublicRoomSummary,
+  RoomAccessOptions,
+  RoomClosedData,
+  RoomEntryData,
+  RoomLockChangedData,
+  RoomSettingsUpdatedData,
+  TimerAction,
+  TimerUpdatedData,
+  VotingResultsData,
 } from "../types/game";
+import type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  SocketCallback,
+} from "../types/socket-events";
 import { io, Socket } from "socket.io-client";
 
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// How many rooms' sessions we remember after leaving them
+const MAX_ROOM_SESSIONS = 10;
+
 class SocketService {
-  private socket: Socket;
+  private socket: GameSocket;
   private static instance: SocketService;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
@@ -40,6 +71,11 @@ class SocketService {
       this.reconnectAttempts = 0;
     });
 
+    // Quick matches put us in a room without a create or join call
+    this.socket.on("match-found", data => {
+      this.storeSessionToken(data.roomCode, data.sessionToken);
+    });
+
     this.socket.on("disconnect", reason => {
       console.log("Socket disconnected:", reason);
       this.reconnectAttempts++;
@@ -58,7 +94,7 @@ class SocketService {
     return SocketService.instance;
   }
 
-  connect(): Socket {
+  connect(): GameSocket {
     if (this.socket.connected) {
       return this.socket;
     }
@@ -73,85 +109,96 @@ class SocketService {
 
     // Small delay to ensure localStorage is synced if clearRoomData was just called
     setTimeout(() => {
-      const roomCode = localStorage.getItem("roomCode");
-      const playerId = localStorage.getItem("playerId");
+      const sessionToken = localStorage.getItem("sessionToken");
 
-      // Attempt rejoin if we have both roomCode and playerId
-      if (roomCode && playerId) {
-        this.performRejoin(roomCode, playerId);
+      // Attempt rejoin if the server gave us a session for a room
+      if (sessionToken) {
+        this.performRejoin(sessionToken);
       }
     }, 100);
   }
 
-  private performRejoin(roomCode: string, playerId: string): void {
+  private performRejoin(sessionToken: string): void {
     console.log(
-      "Attempting to rejoin room:",
-      roomCode,
-      "reconnectAttempts:",
+      "Attempting to rejoin room, reconnectAttempts:",
       this.reconnectAttempts,
     );
-    this.socket.emit(
-      "rejoin-room",
-      { roomCode, oldPlayerId: playerId },
-      (response: {
-        success: boolean;
-        newPlayerId?: string;
-        room?: {
-          code: string;
-          hostId: string;
-          players: Player[];
-          gameState: GameState;
-        };
-        error?: string;
-      }) => {
-        if (response.success && response.room) {
-          console.log("Rejoined room successfully:", {
-            roomCode: response.room.code,
-            playerId: response.newPlayerId || playerId,
-            gameStarted: response.room.gameState.gameStarted,
-            playersCount: response.room.players.length,
-          });
-          // Update localStorage with new playerId if provided
-          if (response.newPlayerId) {
-            localStorage.setItem("playerId", response.newPlayerId);
-          }
-          // Notify about successful rejoin via custom event
-          window.dispatchEvent(
-            new CustomEvent("room-rejoined", {
-              detail: {
-                room: response.room,
-                playerId: response.newPlayerId || playerId,
-                isReconnection: this.reconnectAttempts > 0,
-              },
-            }),
-          );
-        } else {
-          console.log("Failed to rejoin room:", response.error);
-          // Clear invalid room data
-          localStorage.removeItem("roomCode");
-          localStorage.removeItem("playerId");
-          localStorage.removeItem("hostId");
-          // Notify about failed rejoin
-          window.dispatchEvent(
-            new CustomEvent("room-rejoin-failed", {
-              detail: {
-                error: response.error,
-                isReconnection: this.reconnectAttempts > 0,
-              },
-            }),
-          );
-        }
-      },
+    this.socket.emit("rejoin-room", { sessionToken }, response => {
+      if (response.success && response.room && response.playerId) {
+        console.log("Rejoined room successfully:", {
+          roomCode: response.room.code,
+          playerId: response.playerId,
+          gameStarted: response.room.gameState.gameStarted,
+          playersCount: response.room.players.length,
+        });
+        // Notify about successful rejoin via custom event
+        window.dispatchEvent(
+          new CustomEvent("room-rejoined", {
+            detail: {
+              room: response.room,
+              privateData: response.privateData,
+              playerId: response.playerId,
+              isReconnection: this.reconnectAttempts > 0,
+            },
+          }),
+        );
+      } else {
+        console.log("Failed to rejoin room:", response.error);
+        // Clear invalid room data
+        localStorage.removeItem("roomCode");
+        localStorage.removeItem("playerId");
+        localStorage.removeItem("hostId");
+        localStorage.removeItem("sessionToken");
+        // Notify about failed rejoin
+        window.dispatchEvent(
+          new CustomEvent("room-rejoin-failed", {
+            detail: {
+              error: response.error,
+              isReconnection: this.reconnectAttempts > 0,
+            },
+          }),
+        );
+      }
+    });
+  }
+
+  // Kept so the player gets their seat back after a refresh or reconnect.
+  // The last few rooms' sessions outlive leaving, so a ban follows us back.
+  private storeSessionToken(
+    roomCode: string | undefined,
+    sessionToken: string | undefined,
+  ): void {
+    if (typeof window === "undefined" || !roomCode || !sessionToken) return;
+
+    localStorage.setItem("sessionToken", sessionToken);
+    const sessions = Object.entries(this.getRoomSessions()).filter(
+      ([code]) => code !== roomCode,
+    );
+    localStorage.setItem(
+      "roomSessions",
+      JSON.stringify(
+        Object.fromEntries(
+          [...sessions, [roomCode, sessionToken]].slice(-MAX_ROOM_SESSIONS),
+        ),
+      ),
     );
   }
 
+  private getRoomSessions(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem("roomSessions") || "{}");
+    } catch {
+      return {};
+    }
+  }
+
   disconnect(): void {
     if (this.socket.connected) {
       this.socket.disconnect();
     }
   }
 
-  getSocket(): Socket {
+  getSocket(): GameSocket {
     return this.socket;
   }
 
@@ -159,9 +206,7 @@ class SocketService {
     return this.socket.connected;
   }
 
-  leaveRoom(
-    callback?: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  leaveRoom(callback?: SocketCallback): void {
     if (!this.socket.connected) {
       if (callback) callback({ success: false, error: "Not connected" });
       return;
@@ -170,54 +215,41 @@ class SocketService {
     this.socket.emit(
       "leave-room",
       {}, // Empty data object to match server signature
-      (response: { success: boolean; error?: string }) => {
+      response => {
         // Clear localStorage
         if (typeof window !== "undefined") {
           localStorage.removeItem("roomCode");
           localStorage.removeItem("playerId");
           localStorage.removeItem("hostId");
+          localStorage.removeItem("sessionToken");
         }
         if (callback) callback(response);
       },
     );
   }
 
-  closeRoom(
-    callback?: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  closeRoom(callback?: SocketCallback): void {
     if (!this.socket.connected) {
       if (callback) callback({ success: false, error: "Not connected" });
       return;
     }
 
-    this.socket.emit(
-      "close-room",
-      (response: { success: boolean; error?: string }) => {
-        // Clear localStorage
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("roomCode");
-          localStorage.removeItem("playerId");
-          localStorage.removeItem("hostId");
-        }
-        if (callback) callback(response);
-      },
-    );
+    this.socket.emit("close-room", response => {
+      // Clear localStorage
+      if (typeof window !== "undefined") {
+        localStorage.removeItem("roomCode");
+        localStorage.removeItem("playerId");
+        localStorage.removeItem("hostId");
+        localStorage.removeItem("sessionToken");
+      }
+      if (callback) callback(response);
+    });
   }
   // Room actions
   createRoom(
     hostName: string,
-    callback: (response: {
-      success: boolean;
-      roomCode?: string;
-      playerId?: string;
-      room?: {
-        code: string;
-        hostId: string;
-        players: Player[];
-        gameState: GameState;
-      };
-      error?: string;
-    }) => void,
+    access: RoomAccessOptions,
+    callback: SocketCallback<RoomEntryData>,
   ): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
@@ -229,26 +261,21 @@ class SocketService {
       localStorage.removeItem("roomCode");
       localStorage.removeItem("playerId");
       localStorage.removeItem("hostId");
+      localStorage.removeItem("sessionToken");
     }
 
-    const data: CreateRoomData = { hostName };
-    this.socket.emit("create-room", data, callback);
+    const data: CreateRoomData = { hostName, ...access };
+    this.socket.emit("create-room", data, response => {
+      this.storeSessionToken(response.roomCode, response.sessionToken);
+      callback(response);
+    });
   }
 
   joinRoom(
     roomCode: string,
     playerName: string,
-    callback: (response: {
-      success: boolean;
-      playerId?: string;
-      room?: {
-        code: string;
-        hostId: string;
-        players: Player[];
-        gameState: GameState;
-      };
-      error?: string;
-    }) => void,
+    password: string | undefined,
+    callback: SocketCallback<RoomEntryData>,
   ): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
@@ -262,41 +289,131 @@ class SocketService {
         localStorage.removeItem("roomCode");
         localStorage.removeItem("playerId");
         localStorage.removeItem("hostId");
+        localStorage.removeItem("sessionToken");
       }
     }
 
-    const data: JoinRoomData = { roomCode, playerName };
-    this.socket.emit("join-room", data, callback);
+    const data: JoinRoomData = {
+      roomCode,
+      playerName,
+      password,
+      sessionToken:
+        typeof window !== "undefined"
+          ? this.getRoomSessions()[roomCode]
+          : undefined,
+    };
+    this.socket.emit("join-room", data, response => {
+      this.storeSessionToken(response.roomCode, response.sessionToken);
+      callback(response);
+    });
   }
 
-  // Game actions
-  startGame(
-    gameState: GameState,
-    callback: (response: { success: boolean; error?: string }) => void,
+  // Host moderation
+  kickPlayer(playerId: string, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("kick-player", { playerId }, callback);
+  }
+
+  banPlayer(playerId: string, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("ban-player", { playerId }, callback);
+  }
+
+  transferHost(playerId: string, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("transfer-host", { playerId }, callback);
+  }
+
+  lockRoom(locked: boolean, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("lock-room", { locked }, callback);
+  }
+
+  // Room discovery
+  listPublicRooms(
+    callback: SocketCallback<{ rooms: PublicRoomSummary[] }>,
   ): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
     }
 
-    this.socket.emit("start-game", gameState, callback);
+    this.socket.emit("list-public-rooms", callback);
   }
 
-  playerRevealed(
-    callback: (response: { success: boolean; error?: string }) => void,
+  joinQueue(
+    data: JoinQueueData,
+    callback: SocketCallback<{ waiting: number }>,
   ): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
     }
 
+    // Clear any old room data, a match puts us in a new room
+    if (typeof window !== "undefined") {
+      localStorage.removeItem("roomCode");
+      localStorage.removeItem("playerId");
+      localStorage.removeItem("hostId");
+      localStorage.removeItem("sessionToken");
+    }
+
+    this.socket.emit("join-queue", data, callback);
+  }
+
+  leaveQueue(callback?: SocketCallback): void {
+    if (!this.socket.connected) return;
+
+    this.socket.emit("leave-queue", response => {
+      if (callback) callback(response);
+    });
+  }
+
+  // Game actions
+  updateRoomSettings(gameConfig: GameConfig, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("update-room-settings", gameConfig, callback);
+  }
+
+  startGame(gameConfig: GameConfig, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("start-game", gameConfig, callback);
+  }
+
+  playerRevealed(callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
     this.socket.emit("player-revealed", callback);
   }
 
-  changePhase(
-    phase: GameState["phase"],
-    callback: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  changePhase(phase: HostPhaseChange, callback: SocketCallback): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
@@ -305,9 +422,7 @@ class SocketService {
     this.socket.emit("change-phase", phase, callback);
   }
 
-  revealImpostor(
-    callback: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  revealImpostor(callback: SocketCallback): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
@@ -316,18 +431,7 @@ class SocketService {
     this.socket.emit("reveal-impostor", callback);
   }
 
-  restartGame(
-    gameConfig: {
-      currentWord: string;
-      currentHints: string[];
-      currentCategory: string;
-      selectedCategories: string[];
-      difficulty: string;
-      showHintsToImpostors: boolean;
-      impostorCount: number;
-    },
-    callback: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  restartGame(gameConfig: GameConfig, callback: SocketCallback): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
@@ -336,10 +440,25 @@ class SocketService {
     this.socket.emit("restart-game", gameConfig, callback);
   }
 
-  submitVote(
-    votedForId: string,
-    callback: (response: { success: boolean; error?: string }) => void,
-  ): void {
+  showStandings(callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("show-standings", callback);
+  }
+
+  controlTimer(action: TimerAction, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("timer-control", { action }, callback);
+  }
+
+  submitVote(votedForId: string, callback: SocketCallback): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
@@ -348,77 +467,138 @@ class SocketService {
     this.socket.emit("submit-vote", { votedForId }, callback);
   }
 
-  calculateVotes(
-    callback: (response: { success: boolean; error?: string }) => void,
+  submitImpostorGuess(guess: string, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("submit-impostor-guess", { guess }, callback);
+  }
+
+  investigatePlayer(
+    playerId: string,
+    callback: SocketCallback<{ investigation: Investigation }>,
   ): void {
     if (!this.socket.connected) {
       callback({ success: false, error: "Not connected" });
       return;
     }
 
+    this.socket.emit("investigate-player", { playerId }, callback);
+  }
+
+  submitClue(clue: string, callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("submit-clue", { clue }, callback);
+  }
+
+  calculateVotes(callback: SocketCallback): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
     this.socket.emit("calculate-votes", callback);
   }
 
+  sendChatMessage(
+    text: string,
+    channel: ChatChannel,
+    callback: SocketCallback,
+  ): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("send-chat-message", { text, channel }, callback);
+  }
+
+  getChatHistory(callback: SocketCallback<{ messages: ChatMessage[] }>): void {
+    if (!this.socket.connected) {
+      callback({ success: false, error: "Not connected" });
+      return;
+    }
+
+    this.socket.emit("get-chat-history", callback);
+  }
+
   sendNotification(notification: NotificationData): void {
     if (!this.socket.connected) return;
     this.socket.emit("send-notification", notification);
   }
 
   // Event listeners
-  onPlayerJoined(
-    callback: (data: {
-      playerId: string;
-      playerName: string;
-      players: Player[];
-    }) => void,
-  ): void {
+  onPlayerJoined(callback: (data: PlayerConnectedData) => void): void {
     this.socket.on("player-joined", callback);
   }
 
-  onPlayerLeft(
-    callback: (data: { playerId: string; players: Player[] }) => void,
-  ): void {
+  onPlayerLeft(callback: (data: PlayerUpdatedData) => void): void {
     this.socket.on("player-left", callback);
   }
 
-  onGameStarted(callback: (data: { gameState: GameState }) => void): void {
+  onGameStarted(callback: (data: GameStartedData) => void): void {
     this.socket.on("game-started", callback);
   }
 
-  onPlayerRevealedUpdate(
-    callback: (data: { playerId: string; players: Player[] }) => void,
-  ): void {
+  onPlayerRevealedUpdate(callback: (data: PlayerUpdatedData) => void): void {
     this.socket.on("player-revealed-update", callback);
   }
 
-  onPhaseChanged(
-    callback: (data: {
-      phase: GameState["phase"];
-      gameState: GameState;
-    }) => void,
-  ): void {
+  onPhaseChanged(callback: (data: PhaseChangedData) => void): void {
     this.socket.on("phase-changed", callback);
   }
 
-  onImpostorRevealed(
-    callback: (data: { impostors: Player[]; word: string }) => void,
-  ): void {
+  onTimerUpdated(callback: (data: TimerUpdatedData) => void): void {
+    this.socket.on("timer-updated", callback);
+  }
+
+  onImpostorRevealed(callback: (data: ImpostorRevealedData) => void): void {
     this.socket.on("impostor-revealed", callback);
   }
 
-  onVotingResults(
-    callback: (data: {
-      votingResults: unknown[];
-      winners: string[];
-      players: Player[];
-      impostors: Player[];
-      word: string;
-    }) => void,
-  ): void {
+  onVotingResults(callback: (data: VotingResultsData) => void): void {
     this.socket.on("voting-results", callback);
   }
 
-  onRoomClosed(callback: (data: { message: string }) => void): void {
+  onImpostorGuessSubmitted(
+    callback: (data: ImpostorGuessSubmittedData) => void,
+  ): void {
+    this.socket.on("impostor-guess-submitted", callback);
+  }
+
+  onClueSubmitted(callback: (data: ClueSubmittedData) => void): void {
+    this.socket.on("clue-submitted", callback);
+  }
+
+  onMatchFound(callback: (data: RoomEntryData) => void): void {
+    this.socket.on("match-found", callback);
+  }
+
+  onPlayerKicked(callback: (data: PlayerKickedData) => void): void {
+    this.socket.on("player-kicked", callback);
+  }
+
+  onRoomLockChanged(callback: (data: RoomLockChangedData) => void): void {
+    this.socket.on("room-lock-changed", callback);
+  }
+
+  onRoomSettingsUpdated(
+    callback: (data: RoomSettingsUpdatedData) => void,
+  ): void {
+    this.socket.on("room-settings-updated", callback);
+  }
+
+  onChatMessage(callback: (message: ChatMessage) => void): void {
+    this.socket.on("chat-message", callback);
+  }
+
+  onRoomClosed(callback: (data: RoomClosedData) => void): void {
     this.socket.on("room-closed", callback);
   }
 
@@ -427,10 +607,12 @@ class SocketService {
   }
 
   // Remove listeners
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  removeListener(event: string, callback?: (...args: any[]) => void): void {
+  removeListener<E extends keyof ServerToClientEvents>(
+    event: E,
+    callback?: ServerToClientEvents[E],
+  ): void {
     if (callback) {
-      this.socket.off(event, callback);
+      this.socket.off<keyof ServerToClientEvents>(event, callback);
     } else {
       this.socket.off(event);
     }
@@ -1,4 +1,4 @@
-import { WordWithHints } from "@/src/types/game";
+import { WordPair, WordWithHints } from "@/src/types/game";
 import Dexie, { Table } from "dexie";
 
 export interface WordSet {
@@ -10,8 +10,18 @@ export interface WordSet {
   usageCount?: number;
 }
 
+export interface WordPairSet {
+  id?: string;
+  category: string;
+  language: string;
+  wordPairs: WordPair[];
+  createdAt: Date;
+  usageCount?: number;
+}
+
 export class GameDatabase extends Dexie {
   wordSets!: Table<WordSet>;
+  wordPairSets!: Table<WordPairSet>;
 
   constructor() {
     super("FindTheImpostorDB");
@@ -19,6 +29,12 @@ export class GameDatabase extends Dexie {
     this.version(1).stores({
       wordSets: "++id, category, language, createdAt, [category+language]",
     });
+
+    // Word pairs for the undercover variant
+    this.version(2).stores({
+      wordSets: "++id, category, language, createdAt, [category+language]",
+      wordPairSets: "++id, category, language, createdAt, [category+language]",
+    });
   }
 }
 
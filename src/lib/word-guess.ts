@@ -0,0 +1,46 @@
+// Lowercase, without accents, spaces or punctuation: "Crème Brûlée" -> "cremebrulee"
+export function normalizeWord(word: string): string {
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Whether the text gives the word away, e.g. "Snowman" for "snow"
+export function containsWord(text: string, word: string): boolean {
+  const normalizedWord = normalizeWord(word);
+  return !!normalizedWord && normalizeWord(text).includes(normalizedWord);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Whether an impostor's guess names the secret word. Case, accents and
+ * punctuation are ignored, and longer words forgive a typo per five letters.
+ */
+export function isCorrectGuess(guess: string, word: string): boolean {
+  const normalizedGuess = normalizeWord(guess);
+  const normalizedWord = normalizeWord(word);
+  if (!normalizedGuess || !normalizedWord) return false;
+
+  const allowedTypos = Math.floor(normalizedWord.length / 5);
+  return editDistance(normalizedGuess, normalizedWord) <= allowedTypos;
+}
@@ -1,7 +1,10 @@
 import { Locale } from "../config/language";
 import { db } from "./storage";
-import { FALLBACK_WORDS_WITH_HINTS } from "@/src/data/fallbackwords";
-import { Difficulty, WordWithHints } from "@/src/types/game";
+import {
+  FALLBACK_WORD_PAIRS,
+  FALLBACK_WORDS_WITH_HINTS,
+} from "@/src/data/fallbackwords";
+import { Difficulty, WordPair, WordWithHints } from "@/src/types/game";
 
 export async function getRandomWordWithHints(
   category: string,
@@ -79,3 +82,83 @@ export async function getRandomWordWithHints(
     `No words available for category "${category}" in language "${language}"`,
   );
 }
+
+// A secret word with its decoy, for the undercover variant
+export async function getRandomWordPair(
+  category: string,
+  language: Locale,
+  difficulty: Difficulty = "medium",
+): Promise<WordPair> {
+  try {
+    const cached = await db.wordPairSets
+      .where(["category", "language"])
+      .equals([category.toLowerCase(), language])
+      .first();
+
+    if (cached && cached.wordPairs.length > 0) {
+      const randomIndex = Math.floor(Math.random() * cached.wordPairs.length);
+      const selectedPair = cached.wordPairs[randomIndex];
+      const remainingPairs = cached.wordPairs.filter(
+        (_, index) => index !== randomIndex,
+      );
+
+      // Remove the selected pair from the cache
+      if (remainingPairs.length > 0) {
+        await db.wordPairSets.update(cached.id, {
+          wordPairs: remainingPairs,
+          usageCount: (cached.usageCount || 0) + 1,
+        });
+      } else {
+        await db.wordPairSets.delete(cached.id);
+      }
+
+      return selectedPair;
+    }
+    const response = await fetch("/api/generate-words", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        category,
+        language,
+        count: 15,
+        difficulty,
+        pairs: true,
+      }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const randomIndex = Math.floor(Math.random() * data.wordPairs.length);
+      const selectedPair = data.wordPairs[randomIndex];
+      const remainingPairs: WordPair[] = data.wordPairs.filter(
+        (_: WordPair, index: number) => index !== randomIndex,
+      );
+      if (remainingPairs.length > 0) {
+        await db.wordPairSets.add({
+          id: `${category.toLowerCase()}-${language}-${Date.now()}`,
+          category: category.toLowerCase(),
+          wordPairs: remainingPairs,
+          language,
+          createdAt: new Date(),
+          usageCount: 1,
+        });
+      }
+
+      return selectedPair;
+    }
+  } catch (error) {
+    console.error("Error loading word pairs:", error);
+  }
+
+  const categoryKey =
+    category.toLowerCase() as keyof (typeof FALLBACK_WORD_PAIRS)[typeof language];
+  const fallbackPairs = FALLBACK_WORD_PAIRS[language]?.[categoryKey];
+
+  if (fallbackPairs && fallbackPairs.length > 0) {
+    return fallbackPairs[Math.floor(Math.random() * fallbackPairs.length)];
+  }
+
+  throw new Error(
+    `No word pairs available for category "${category}" in language "${language}"`,
+  );
+}
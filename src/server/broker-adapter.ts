@@ -0,0 +1,117 @@
+import net from "net";
+import type { Namespace } from "socket.io";
+import { ClusterAdapterWithHeartbeat } from "socket.io-adapter";
+import type {
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+} from "socket.io-adapter";
+
+const RECONNECT_DELAY_MS = 1000;
+
+// Responses are broadcast like any other message; the requester picks them out
+type BrokerMessage = (ClusterMessage | ClusterResponse) & {
+  requesterUid?: string;
+};
+
+/**
+ * Newline-delimited JSON connection to the socket broker (see
+ * socket-broker.ts). Every line written is relayed to all other servers.
+ */
+class BrokerConnection {
+  private socket: net.Socket | null = null;
+  private listeners = new Set<(message: BrokerMessage) => void>();
+
+  constructor(private url: URL) {
+    this.connect();
+  }
+
+  private connect() {
+    const socket = net.connect(Number(this.url.port), this.url.hostname);
+    let buffer = "";
+
+    socket.setEncoding("utf-8");
+    socket.on("connect", () => {
+      console.log("Connected to socket broker:", { url: this.url.href });
+      this.socket = socket;
+    });
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      lines.forEach(line => {
+        if (!line) return;
+        try {
+          const message = JSON.parse(line) as BrokerMessage;
+          this.listeners.forEach(listener => listener(message));
+        } catch (error) {
+          console.error("Invalid message from socket broker:", error);
+        }
+      });
+    });
+    socket.on("error", error => {
+      console.error("Socket broker connection error:", error.message);
+    });
+    socket.on("close", () => {
+      this.socket = null;
+      setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    });
+  }
+
+  publish(message: BrokerMessage) {
+    // Messages sent while reconnecting are dropped, as with any pub/sub broker
+    this.socket?.write(`${JSON.stringify(message)}\n`);
+  }
+
+  subscribe(listener: (message: BrokerMessage) => void) {
+    this.listeners.add(listener);
+  }
+}
+
+/**
+ * Socket.IO adapter that forwards broadcasts, room changes and
+ * fetchSockets() requests to the other server processes through the broker,
+ * so `io.to(room).emit()` reaches clients connected to any process.
+ */
+class BrokerAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(
+    nsp: Namespace,
+    private connection: BrokerConnection,
+    opts: ClusterAdapterOptions = {},
+  ) {
+    super(nsp, opts);
+
+    connection.subscribe(message => {
+      if (message.requesterUid) {
+        if (message.requesterUid !== this.uid) return;
+        this.onResponse(message as ClusterResponse);
+        return;
+      }
+      this.onMessage(message as ClusterMessage);
+    });
+  }
+
+  protected doPublish(message: ClusterMessage): Promise<string> {
+    this.connection.publish(message);
+    // Offsets are only needed for connection state recovery, which is off
+    return Promise.resolve("");
+  }
+
+  protected doPublishResponse(
+    requesterUid: string,
+    response: ClusterResponse,
+  ): Promise<void> {
+    this.connection.publish({ ...response, requesterUid });
+    return Promise.resolve();
+  }
+}
+
+// Adapter factory for `io.adapter()`, e.g. createBrokerAdapter("tcp://localhost:4000")
+export function createBrokerAdapter(brokerUrl: string) {
+  const connection = new BrokerConnection(new URL(brokerUrl));
+  // Socket.IO calls this with `new`, so it can't be an arrow function
+  return function (nsp: Namespace) {
+    return new BrokerAdapter(nsp, connection);
+  };
+}
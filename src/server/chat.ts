@@ -0,0 +1,125 @@
+import { isPlaying } from "../lib/players";
+import { getRoleDefinition } from "../lib/roles";
+import type { ChatChannel, GameState, Player } from "../types/game";
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+export const MAX_CHAT_HISTORY = 100;
+
+const RATE_LIMIT_MESSAGES = 5;
+const RATE_LIMIT_WINDOW_MS = 10 * 1000;
+
+// Phases where the round is being played and only its players may talk
+const ROUND_PHASES: GameState["phase"][] = [
+  "clues",
+  "discussion",
+  "voting",
+  "impostorguess",
+];
+
+// Matched as whole words, in the languages the game is available in
+const PROFANITY = [
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "cunt",
+  "dick",
+  "fuck",
+  "fucking",
+  "motherfucker",
+  "shit",
+  "slut",
+  "whore",
+  "arschloch",
+  "fotze",
+  "hure",
+  "scheisse",
+  "scheiße",
+  "wichser",
+  "cabron",
+  "cabrón",
+  "coño",
+  "gilipollas",
+  "joder",
+  "mierda",
+  "puta",
+  "puto",
+];
+
+// Letters of the supported languages, so "class" doesn't match "ass"
+const PROFANITY_PATTERN = new RegExp(
+  `(^|[^a-zäöüßáéíóúñ])(${PROFANITY.join("|")})(?=$|[^a-zäöüßáéíóúñ])`,
+  "gi",
+);
+
+export function filterProfanity(text: string): string {
+  return text.replace(
+    PROFANITY_PATTERN,
+    (_, before: string, word: string) => before + "*".repeat(word.length),
+  );
+}
+
+/**
+ * Limits how many chat messages each player sends in a short window. Counts
+ * are kept per server process, like the sockets sending them.
+ */
+export class ChatRateLimiter {
+  private sentAt = new Map<string, number[]>();
+
+  // Records the message and returns false if the player is over the limit
+  tryConsume(playerId: string): boolean {
+    const now = Date.now();
+    const recent = (this.sentAt.get(playerId) || []).filter(
+      time => now - time < RATE_LIMIT_WINDOW_MS,
+    );
+
+    if (recent.length >= RATE_LIMIT_MESSAGES) {
+      this.sentAt.set(playerId, recent);
+      return false;
+    }
+
+    this.sentAt.set(playerId, [...recent, now]);
+    return true;
+  }
+
+  forget(playerId: string): void {
+    this.sentAt.delete(playerId);
+  }
+}
+
+// Impostors in on the team's secrets; roles like Mr. White are left out
+export function isImpostorTeamMember(player: Player): boolean {
+  return player.role === "impostor" && !getRoleDefinition(player)?.knowsNothing;
+}
+
+// Whether the impostor team has its hidden channel this round
+export function hasImpostorChannel(gameState: GameState): boolean {
+  return (
+    gameState.gameStarted &&
+    !!gameState.impostorTeam &&
+    gameState.players.filter(isImpostorTeamMember).length > 1
+  );
+}
+
+// Why the player can't post to the channel right now, or null if they can
+export function getChatError(
+  gameState: GameState,
+  player: Player,
+  channel: ChatChannel,
+): string | null {
+  if (gameState.phase === "wordreveal") {
+    return "Chat is disabled while cards are revealed";
+  }
+
+  if (channel === "impostors") {
+    if (!hasImpostorChannel(gameState) || !isImpostorTeamMember(player)) {
+      return "Only impostors can use this channel";
+    }
+    return null;
+  }
+
+  if (ROUND_PHASES.includes(gameState.phase) && !isPlaying(player)) {
+    return "Only players in the round can chat right now";
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+import { getRoleDefinition } from "../lib/roles";
+import type {
+  ChatMessage,
+  GameState,
+  PhaseTimer,
+  Player,
+  PrivatePlayerData,
+} from "../types/game";
+import { isImpostorTeamMember } from "./chat";
+import { getRemainingMs } from "./phase-timer";
+import type { RoomData } from "./room-manager";
+
+// Roles and the secret word stay hidden until the round is over
+function isRoundRevealed(gameState: GameState): boolean {
+  return gameState.phase === "results" || gameState.phase === "standings";
+}
+
+function maskPlayer(player: Player): Player {
+  return { ...player, role: "player", specialRole: undefined };
+}
+
+export function getPublicPlayers(room: RoomData): Player[] {
+  const players = Array.from(room.players.values());
+  if (isRoundRevealed(room.gameState)) return players;
+  return players.map(maskPlayer);
+}
+
+// Clients count down from the time left rather than the server's clock
+export function getPublicTimer(
+  timer: PhaseTimer | undefined,
+): PhaseTimer | undefined {
+  if (!timer) return undefined;
+  return { ...timer, remainingMs: getRemainingMs(timer), endsAt: undefined };
+}
+
+export function getPublicGameState(room: RoomData): GameState {
+  const gameState = {
+    ...room.gameState,
+    match: room.match,
+    timer: getPublicTimer(room.gameState.timer),
+  };
+  if (isRoundRevealed(gameState)) return gameState;
+
+  return {
+    ...gameState,
+    currentWord: "",
+    currentHints: [],
+    decoyWord: undefined,
+    players: gameState.players.map(maskPlayer),
+    investigations: undefined,
+    // Would give away impostors nobody voted for while caught ones guess
+    votingResults: undefined,
+    winners: undefined,
+  };
+}
+
+export function getPrivatePlayerData(
+  room: RoomData,
+  playerId: string | undefined,
+): PrivatePlayerData | undefined {
+  const { gameState } = room;
+  if (!playerId || !gameState.gameStarted) return undefined;
+
+  // Spectators get no word until they play
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.isSpectator) return undefined;
+
+  const { specialRole } = player;
+  if (getRoleDefinition(player)?.knowsNothing) {
+    return { playerId, role: player.role, specialRole };
+  }
+
+  // Undercover impostors hold the decoy and think they're regular players
+  if (player.role === "impostor" && gameState.undercover) {
+    return { playerId, role: "player", word: gameState.decoyWord };
+  }
+
+  if (player.role === "impostor") {
+    return {
+      playerId,
+      role: "impostor",
+      hints: gameState.showHintsToImpostors
+        ? gameState.currentHints
+        : undefined,
+      teammates: gameState.impostorTeam
+        ? gameState.players
+            .filter(p => isImpostorTeamMember(p) && p.id !== playerId)
+            .map(p => ({ id: p.id, name: p.name }))
+        : undefined,
+    };
+  }
+
+  return {
+    playerId,
+    role: "player",
+    word: gameState.currentWord,
+    specialRole,
+    investigations: getRoleDefinition(player)?.canInvestigate
+      ? (gameState.investigations || []).filter(i => i.detectiveId === playerId)
+      : undefined,
+  };
+}
+
+// The room's chat history as the player may see it
+export function getChatHistory(
+  room: RoomData,
+  playerId: string | undefined,
+): ChatMessage[] {
+  const player = room.gameState.players.find(p => p.id === playerId);
+  const isImpostor =
+    room.gameState.gameStarted && !!player && isImpostorTeamMember(player);
+
+  return (room.chat || []).filter(
+    message => message.channel === "room" || isImpostor,
+  );
+}
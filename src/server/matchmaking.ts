@@ -0,0 +1,61 @@
+import type { Locale } from "../config/language";
+
+export const MIN_MATCH_PLAYERS = 3;
+export const MAX_MATCH_PLAYERS = 10;
+
+export interface QueueEntry {
+  socketId: string;
+  playerName: string;
+  language: Locale;
+  preferredPlayers: number; // Room size the player wants to play in
+  queuedAt: number;
+}
+
+/**
+ * Players waiting for a quick match. Like chat rate limits, the queue is kept
+ * per server process, so players are matched with others queued on the same
+ * process; open public rooms are found on any of them.
+ */
+export class MatchmakingQueue {
+  private entries: QueueEntry[] = [];
+
+  add(entry: QueueEntry): void {
+    this.remove(entry.socketId);
+    this.entries.push(entry);
+  }
+
+  remove(socketId: string): boolean {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(e => e.socketId !== socketId);
+    return this.entries.length !== count;
+  }
+
+  has(socketId: string): boolean {
+    return this.entries.some(e => e.socketId === socketId);
+  }
+
+  // Everyone waiting, oldest first
+  getAll(): QueueEntry[] {
+    return [...this.entries];
+  }
+
+  // Players waiting for the same language and room size, oldest first
+  getWaiting(language: Locale, preferredPlayers: number): QueueEntry[] {
+    return this.entries.filter(
+      e => e.language === language && e.preferredPlayers === preferredPlayers,
+    );
+  }
+
+  // Takes a full room's worth of matching players off the queue, if there
+  // are enough of them waiting
+  takeGroup(language: Locale, preferredPlayers: number): QueueEntry[] | null {
+    const group = this.getWaiting(language, preferredPlayers).slice(
+      0,
+      preferredPlayers,
+    );
+    if (group.length < preferredPlayers) return null;
+
+    group.forEach(e => this.remove(e.socketId));
+    return group;
+  }
+}
@@ -0,0 +1,67 @@
+import type { GameState } from "../types/game";
+import { getHostPhaseChangeError } from "./phase-rules";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+const gameState = (overrides: Partial<GameState>): GameState => ({
+  phase: "wordreveal",
+  players: [],
+  totalPlayers: 4,
+  impostorCount: 1,
+  currentWord: "apple",
+  currentHints: [],
+  currentCategory: "food",
+  selectedCategories: ["food"],
+  customCategory: "",
+  difficulty: "medium",
+  showHintsToImpostors: false,
+  currentRevealIndex: 0,
+  gameStarted: true,
+  ...overrides,
+});
+
+describe("getHostPhaseChangeError", () => {
+  test("refuses clues when the room doesn't play clue rounds", () => {
+    assert.equal(
+      getHostPhaseChangeError(gameState({}), "clues"),
+      "This room doesn't play clue rounds",
+    );
+    assert.equal(
+      getHostPhaseChangeError(gameState({ clueRound: false }), "clues"),
+      "This room doesn't play clue rounds",
+    );
+  });
+
+  test("allows clues when the room plays clue rounds", () => {
+    assert.equal(
+      getHostPhaseChangeError(gameState({ clueRound: true }), "clues"),
+      null,
+    );
+  });
+
+  test("allows the next step of the round", () => {
+    assert.equal(getHostPhaseChangeError(gameState({}), "discussion"), null);
+    assert.equal(
+      getHostPhaseChangeError(gameState({ phase: "discussion" }), "voting"),
+      null,
+    );
+  });
+
+  test("refuses skipping ahead or going back", () => {
+    assert.equal(
+      getHostPhaseChangeError(gameState({}), "voting"),
+      "Can't move from wordreveal to voting",
+    );
+    assert.equal(
+      getHostPhaseChangeError(
+        gameState({ phase: "discussion", clueRound: true }),
+        "clues",
+      ),
+      "Can't move from discussion to clues",
+    );
+    assert.equal(
+      getHostPhaseChangeError(gameState({ phase: "results" }), "voting"),
+      "Can't move from results to voting",
+    );
+  });
+});
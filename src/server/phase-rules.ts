@@ -0,0 +1,25 @@
+import type { GameState, HostPhaseChange } from "../types/game";
+
+// Where the host can take a round from each phase. Results and standings
+// reveal every role, so only voting and the impostors' guesses lead there.
+const HOST_PHASE_TRANSITIONS: Partial<
+  Record<GameState["phase"], HostPhaseChange[]>
+> = {
+  wordreveal: ["clues", "discussion"],
+  discussion: ["voting"],
+};
+
+// Why the host can't move the round to the phase, if they can't
+export function getHostPhaseChangeError(
+  gameState: GameState,
+  phase: HostPhaseChange,
+): string | null {
+  if (!HOST_PHASE_TRANSITIONS[gameState.phase]?.includes(phase)) {
+    return `Can't move from ${gameState.phase} to ${phase}`;
+  }
+  // Clues are only given in rooms that play clue rounds
+  if (phase === "clues" && !gameState.clueRound) {
+    return "This room doesn't play clue rounds";
+  }
+  return null;
+}
@@ -0,0 +1,131 @@
+import type { GameState, PhaseTimer } from "../types/game";
+import { roomManager } from "./room-manager";
+
+export function getRemainingMs(timer: PhaseTimer): number {
+  if (timer.paused || timer.endsAt === undefined) return timer.remainingMs;
+  return Math.max(0, timer.endsAt - Date.now());
+}
+
+/**
+ * Server-owned countdowns for timed phases. The timer is stored in the room's
+ * game state, so every server process sees it; the timeout that fires when
+ * it runs out lives in the process that last started, resumed or extended it.
+ * Callers must hold the room lock.
+ */
+export class PhaseTimers {
+  private timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private onExpire: (roomCode: string, phase: GameState["phase"]) => void,
+  ) {}
+
+  start(
+    roomCode: string,
+    phase: GameState["phase"],
+    durationMs: number,
+  ): PhaseTimer | undefined {
+    return this.update(roomCode, {
+      phase,
+      durationMs,
+      remainingMs: durationMs,
+      endsAt: Date.now() + durationMs,
+      paused: false,
+    });
+  }
+
+  pause(roomCode: string): PhaseTimer | undefined {
+    const timer = this.get(roomCode);
+    if (!timer || timer.paused) return timer;
+
+    return this.update(roomCode, {
+      ...timer,
+      remainingMs: getRemainingMs(timer),
+      endsAt: undefined,
+      paused: true,
+    });
+  }
+
+  resume(roomCode: string): PhaseTimer | undefined {
+    const timer = this.get(roomCode);
+    if (!timer || !timer.paused) return timer;
+
+    return this.update(roomCode, {
+      ...timer,
+      endsAt: Date.now() + timer.remainingMs,
+      paused: false,
+    });
+  }
+
+  extend(roomCode: string, extraMs: number): PhaseTimer | undefined {
+    const timer = this.get(roomCode);
+    if (!timer) return undefined;
+
+    const remainingMs = getRemainingMs(timer) + extraMs;
+    return this.update(roomCode, {
+      ...timer,
+      durationMs: timer.durationMs + extraMs,
+      remainingMs,
+      endsAt: timer.paused ? undefined : Date.now() + remainingMs,
+    });
+  }
+
+  // Rooms restored from the store keep their deadlines, but the timeouts
+  // died with the old process
+  restore(): void {
+    for (const roomCode of roomManager.getRoomCodes()) {
+      roomManager.withRoomLock(roomCode, () => {
+        const room = roomManager.getRoom(roomCode);
+        const timer = room?.gameState.timer;
+        if (!timer || timer.paused || timer.endsAt === undefined) return;
+        if (timer.phase !== room.gameState.phase) return;
+        this.schedule(roomCode, timer.endsAt);
+      });
+    }
+  }
+
+  stop(roomCode: string): void {
+    this.cancel(roomCode);
+    if (this.get(roomCode)) {
+      roomManager.updateGameState(roomCode, { timer: undefined });
+    }
+  }
+
+  private get(roomCode: string): PhaseTimer | undefined {
+    return roomManager.getRoom(roomCode)?.gameState.timer;
+  }
+
+  private update(roomCode: string, timer: PhaseTimer): PhaseTimer | undefined {
+    if (!roomManager.updateGameState(roomCode, { timer })) return undefined;
+
+    this.cancel(roomCode);
+    if (!timer.paused && timer.endsAt !== undefined) {
+      this.schedule(roomCode, timer.endsAt);
+    }
+    return timer;
+  }
+
+  private schedule(roomCode: string, endsAt: number): void {
+    const timeout = setTimeout(
+      () => {
+        this.timeouts.delete(roomCode);
+        try {
+          roomManager.withRoomLock(roomCode, () => {
+            const timer = this.get(roomCode);
+            // Paused, extended or stopped since, possibly by another process
+            if (!timer || timer.paused || timer.endsAt !== endsAt) return;
+            this.onExpire(roomCode, timer.phase);
+          });
+        } catch (error) {
+          console.error("Error handling expired timer:", { roomCode, error });
+        }
+      },
+      Math.max(0, endsAt - Date.now()),
+    );
+    this.timeouts.set(roomCode, timeout);
+  }
+
+  private cancel(roomCode: string): void {
+    clearTimeout(this.timeouts.get(roomCode));
+    this.timeouts.delete(roomCode);
+  }
+}
@@ -0,0 +1,29 @@
+import { roomManager } from "./room-manager";
+import type { IncomingMessage, ServerResponse } from "http";
+
+export const ROOM_BROWSER_PATH = "/api/rooms";
+
+// GET /api/rooms: the public rooms strangers can join. Served next to the
+// socket server because that is where the rooms live, not in a Next.js route.
+export function handleRoomBrowserRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+): void {
+  if (req.method !== "GET") {
+    res.writeHead(405, { Allow: "GET", "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Method not allowed" }));
+    return;
+  }
+
+  try {
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    });
+    res.end(JSON.stringify({ rooms: roomManager.listPublicRooms() }));
+  } catch (error) {
+    console.error("Error listing public rooms:", error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Failed to list rooms" }));
+  }
+}
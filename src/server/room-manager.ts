@@ -1,16 +1,141 @@
-import type { GameState, Player } from "../types/game";
+import { shuffle } from "../lib/role-assignment";
+import { getSoloWinners, getTeamWinners } from "../lib/roles";
+import { DEFAULT_MAX_PLAYERS, MIN_ROOM_PLAYERS } from "../lib/room-limits";
+import { calculateRoundPoints } from "../lib/scoring";
+import { isCorrectGuess } from "../lib/word-guess";
+import type {
+  ChatChannel,
+  ChatMessage,
+  GameState,
+  Investigation,
+  Match,
+  Player,
+  PublicRoomSummary,
+} from "../types/game";
+import { MAX_CHAT_HISTORY } from "./chat";
+import { createRoomStore, isSharedRoomStore } from "./room-store";
+import type { RoomStore, SharedRoomStore } from "./room-store";
+import { decideVote } from "./voting-rules";
+
+// Batch bursts of changes (e.g. everyone voting at once) into one write
+const SAVE_DEBOUNCE_MS = 500;
+
+// Kept out of the room: their session can't rejoin or join again. Bans only
+// match the session token a client sends, which the server signs but doesn't
+// tie to a device, so a client that drops its token (e.g. by clearing site
+// data) joins as a new player.
+export interface BannedPlayer {
+  playerId: string;
+  name: string;
+}
 
 export interface RoomData {
   code: string;
   hostId: string;
   players: Map<string, Player>;
   gameState: GameState;
+  match?: Match;
+  chat?: ChatMessage[]; // Oldest first, capped at MAX_CHAT_HISTORY
+  recentImpostorIds?: string[][]; // Last few rounds' impostors, newest first
+  bannedPlayers?: BannedPlayer[];
+  passwordHash?: string; // Never sent to clients
   createdAt: Date;
   lastActivityAt?: Date;
 }
 
-class RoomManager {
+export class RoomManager {
   private rooms: Map<string, RoomData> = new Map();
+  private saveTimeout: NodeJS.Timeout | null = null;
+  // Set when rooms are shared with other server processes
+  private sharedStore: SharedRoomStore | null = null;
+  private lockedRooms = new Set<string>();
+
+  constructor(private store: RoomStore) {
+    if (isSharedRoomStore(store)) {
+      // Other processes own the live connections, so rooms are read from the
+      // store on demand instead of being restored here
+      this.sharedStore = store;
+      return;
+    }
+
+    for (const room of store.load()) {
+      // Nobody is connected right after a restart; players come back through
+      // rejoin-room
+      room.players.forEach(player => {
+        player.isConnected = false;
+      });
+      this.rooms.set(room.code, room);
+    }
+
+    if (this.rooms.size > 0) {
+      console.log("Restored rooms from store:", { count: this.rooms.size });
+    }
+  }
+
+  // Schedule a snapshot of all rooms. Call after mutating a room directly.
+  persist(): void {
+    // Shared rooms are written when their lock is released
+    if (this.sharedStore || this.saveTimeout) return;
+
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = null;
+      this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  // Write the snapshot right away, e.g. before the process exits
+  flush(): void {
+    if (this.sharedStore) return;
+
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+
+    try {
+      this.store.save(Array.from(this.rooms.values()));
+    } catch (error) {
+      console.error("Failed to save rooms:", error);
+    }
+  }
+
+  /**
+   * Runs `fn` with exclusive access to a room. With a shared store this takes
+   * the room's lock, reloads the room, and writes it back (or deletes it)
+   * afterwards. `fn` must be synchronous, and nested calls reuse the lock.
+   */
+  withRoomLock<T>(code: string, fn: () => T): T {
+    if (!this.sharedStore || this.lockedRooms.has(code)) return fn();
+
+    const store = this.sharedStore;
+    const release = store.lockRoom(code);
+    this.lockedRooms.add(code);
+    try {
+      this.refreshRoom(code);
+      return fn();
+    } finally {
+      const room = this.rooms.get(code);
+      try {
+        if (room) {
+          store.saveRoom(room);
+        } else {
+          store.deleteRoom(code);
+        }
+      } finally {
+        this.lockedRooms.delete(code);
+        release();
+      }
+    }
+  }
+
+  private refreshRoom(code: string): void {
+    const room = this.sharedStore?.loadRoom(code);
+    if (room) {
+      this.rooms.set(code, room);
+    } else {
+      this.rooms.delete(code);
+    }
+  }
 
   generateRoomCode(): string {
     const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
@@ -20,11 +145,15 @@ class RoomManager {
         { length: 6 },
         () => chars[Math.floor(Math.random() * chars.length)],
       ).join("");
-    } while (this.rooms.has(code));
+    } while (this.getRoom(code));
     return code;
   }
 
-  createRoom(hostId: string, hostName: string): RoomData {
+  createRoom(
+    hostId: string,
+    hostName: string,
+    access: { isPublic?: boolean; passwordHash?: string } = {},
+  ): RoomData {
     const code = this.generateRoomCode();
     const hostPlayer: Player = {
       id: hostId,
@@ -56,16 +185,28 @@ class RoomManager {
         roomCode: code,
         hostId,
         isMultiplayer: true,
+        isPublic: access.isPublic === true,
+        hasPassword: !!access.passwordHash,
+        minPlayers: MIN_ROOM_PLAYERS,
+        maxPlayers: DEFAULT_MAX_PLAYERS,
       },
+      passwordHash: access.passwordHash,
       createdAt: new Date(),
       lastActivityAt: new Date(),
     };
 
-    this.rooms.set(code, room);
+    this.withRoomLock(code, () => {
+      this.rooms.set(code, room);
+      this.persist();
+    });
     return room;
   }
 
   getRoom(code: string): RoomData | undefined {
+    // Outside a lock, another process may have changed the room since
+    if (this.sharedStore && !this.lockedRooms.has(code)) {
+      this.refreshRoom(code);
+    }
     return this.rooms.get(code);
   }
 
@@ -74,99 +215,188 @@ class RoomManager {
     playerId: string,
     playerName: string,
   ): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) {
-      console.log("joinRoom failed: Room not found", { code });
-      return null;
-    }
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) {
+        console.log("joinRoom failed: Room not found", { code });
+        return null;
+      }
 
-    // Check if game already started
-    if (room.gameState.gameStarted) {
-      console.log("joinRoom failed: Game already started", {
-        code,
-        gameStarted: room.gameState.gameStarted,
-      });
-      return null;
-    }
+      // Check if player already exists in room (shouldn't happen, but handle it)
+      const existingPlayer = room.players.get(playerId);
+      if (existingPlayer) {
+        console.log("joinRoom: Player already in room, updating connection", {
+          playerId,
+          existingName: existingPlayer.name,
+          newName: playerName,
+        });
+        existingPlayer.isConnected = true;
+        existingPlayer.name = playerName; // Update name in case it changed
+        this.persist();
+        return room;
+      }
 
-    // Check if player already exists in room (shouldn't happen, but handle it)
-    const existingPlayer = room.players.get(playerId);
-    if (existingPlayer) {
-      console.log("joinRoom: Player already in room, updating connection", {
+      const player: Player = {
+        id: playerId,
+        name: playerName,
+        role: "player",
+        isConnected: true,
+        hasRevealed: false,
+        wins: 0,
+        // Players joining a running game watch until the next restart
+        isSpectator: room.gameState.gameStarted,
+      };
+
+      room.players.set(playerId, player);
+      if (player.isSpectator) {
+        room.gameState.players = [...room.gameState.players, player];
+      }
+      room.lastActivityAt = new Date();
+      this.persist();
+      console.log("joinRoom success:", {
+        code,
         playerId,
-        existingName: existingPlayer.name,
-        newName: playerName,
+        playerName,
+        totalPlayers: room.players.size,
       });
-      existingPlayer.isConnected = true;
-      existingPlayer.name = playerName; // Update name in case it changed
       return room;
+    });
+  }
+
+  // Why a new player can't join the room, or null if they can. A player who
+  // was in the room before brings the ID from their old session; without it,
+  // a banned player isn't recognized (see BannedPlayer). Passwords are
+  // checked by the caller, as that takes a while.
+  getJoinError(code: string, previousPlayerId?: string): string | null {
+    const room = this.getRoom(code);
+    if (!room) return "Room not found";
+    if (room.gameState.locked) return "Room is locked";
+    if (
+      room.players.size >= (room.gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS)
+    ) {
+      return "Room is full";
+    }
+    if (
+      previousPlayerId &&
+      room.bannedPlayers?.some(p => p.playerId === previousPlayerId)
+    ) {
+      return "You are banned from this room";
     }
+    return null;
+  }
 
-    const player: Player = {
-      id: playerId,
-      name: playerName,
-      role: "player",
-      isConnected: true,
-      hasRevealed: false,
-      wins: 0,
-    };
+  // Mark a returning player as connected again
+  rejoinRoom(code: string, playerId: string): Player | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+      if (room.bannedPlayers?.some(p => p.playerId === playerId)) return null;
 
-    room.players.set(playerId, player);
-    room.lastActivityAt = new Date();
-    console.log("joinRoom success:", {
-      code,
-      playerId,
-      playerName,
-      totalPlayers: room.players.size,
+      const player = room.players.get(playerId);
+      if (!player) return null;
+
+      player.isConnected = true;
+      room.lastActivityAt = new Date();
+      this.persist();
+      return player;
     });
-    return room;
   }
 
   leaveRoom(code: string, playerId: string): boolean {
-    const room = this.rooms.get(code);
-    if (!room) return false;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return false;
 
-    room.players.delete(playerId);
-    room.lastActivityAt = new Date();
-
-    // If room is empty, delete room
-    if (room.players.size === 0) {
-      this.rooms.delete(code);
-      console.log("Room deleted (empty):", { code });
-      return true;
-    }
+      room.players.delete(playerId);
+      room.lastActivityAt = new Date();
+      this.persist();
 
-    // If host left but there are still players, transfer host
-    if (playerId === room.hostId) {
-      const newHost = Array.from(room.players.values())[0];
-      if (newHost) {
-        room.hostId = newHost.id;
-        room.gameState.hostId = newHost.id;
-        console.log(
-          `Host transferred from ${playerId} to ${newHost.id} (${newHost.name})`,
-        );
-        // Return false to indicate room was not deleted, but host changed
-        return false;
-      } else {
-        // No players left, delete room
+      // If room is empty, delete room
+      if (room.players.size === 0) {
         this.rooms.delete(code);
-        console.log("Room deleted (no players after host left):", { code });
+        console.log("Room deleted (empty):", { code });
         return true;
       }
-    }
 
-    return false;
+      // If host left but there are still players, transfer host
+      if (playerId === room.hostId) {
+        // Prefer someone who is still around to run the game
+        const players = Array.from(room.players.values());
+        const newHost = players.find(p => p.isConnected) ?? players[0];
+        if (newHost) {
+          this.transferHost(code, newHost.id);
+          // Return false to indicate room was not deleted, but host changed
+          return false;
+        } else {
+          // No players left, delete room
+          this.rooms.delete(code);
+          console.log("Room deleted (no players after host left):", { code });
+          return true;
+        }
+      }
+
+      return false;
+    });
+  }
+
+  // Removes a player for good; banned players also can't come back
+  kickPlayer(code: string, playerId: string, ban: boolean): Player | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      const player = room?.players.get(playerId);
+      if (!room || !player || playerId === room.hostId) return null;
+
+      room.players.delete(playerId);
+      if (ban) {
+        room.bannedPlayers = [
+          ...(room.bannedPlayers || []),
+          { playerId, name: player.name },
+        ];
+      }
+      room.lastActivityAt = new Date();
+      this.persist();
+      console.log(ban ? "Player banned:" : "Player kicked:", {
+        code,
+        playerId,
+        playerName: player.name,
+      });
+      return player;
+    });
+  }
+
+  transferHost(code: string, playerId: string): Player | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      const newHost = room?.players.get(playerId);
+      if (!room || !newHost) return null;
+
+      console.log(
+        `Host transferred from ${room.hostId} to ${newHost.id} (${newHost.name})`,
+      );
+      room.hostId = newHost.id;
+      room.gameState.hostId = newHost.id;
+      room.lastActivityAt = new Date();
+      this.persist();
+      return newHost;
+    });
+  }
+
+  setRoomLocked(code: string, locked: boolean): RoomData | null {
+    return this.updateGameState(code, { locked });
   }
 
   updateGameState(
     code: string,
     gameState: Partial<GameState>,
   ): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) return null;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
 
-    room.gameState = { ...room.gameState, ...gameState };
-    return room;
+      room.gameState = { ...room.gameState, ...gameState };
+      this.persist();
+      return room;
+    });
   }
 
   updatePlayerConnection(
@@ -174,29 +404,59 @@ class RoomManager {
     playerId: string,
     isConnected: boolean,
   ): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) return null;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
 
-    const player = room.players.get(playerId);
-    if (!player) return null;
+      const player = room.players.get(playerId);
+      if (!player) return null;
 
-    player.isConnected = isConnected;
-    return room;
+      player.isConnected = isConnected;
+      this.persist();
+      return room;
+    });
   }
 
   markPlayerRevealed(code: string, playerId: string): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) return null;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
 
-    const player = room.players.get(playerId);
-    if (!player) return null;
+      const player = room.players.get(playerId);
+      if (!player) return null;
 
-    player.hasRevealed = true;
-    return room;
+      player.hasRevealed = true;
+      this.persist();
+      return room;
+    });
+  }
+
+  addChatMessage(code: string, message: ChatMessage): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      room.chat = [...(room.chat || []), message].slice(-MAX_CHAT_HISTORY);
+      room.lastActivityAt = new Date();
+      this.persist();
+      return room;
+    });
+  }
+
+  // Drops a channel's history, e.g. the impostors' once the roles change
+  clearChatChannel(code: string, channel: ChatChannel): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      room.chat = (room.chat || []).filter(m => m.channel !== channel);
+      this.persist();
+      return room;
+    });
   }
 
   getAllPlayers(code: string): Player[] {
-    const room = this.rooms.get(code);
+    const room = this.getRoom(code);
     if (!room) return [];
     return Array.from(room.players.values());
   }
@@ -206,102 +466,361 @@ class RoomManager {
     voterId: string,
     votedForId: string,
   ): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) return null;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
 
-    // Initialize votes array if it doesn't exist
-    if (!room.gameState.votes) {
-      room.gameState.votes = [];
-    }
+      // Initialize votes array if it doesn't exist
+      if (!room.gameState.votes) {
+        room.gameState.votes = [];
+      }
 
-    // Remove previous vote from this voter if exists
-    room.gameState.votes = room.gameState.votes.filter(
-      v => v.voterId !== voterId,
-    );
+      // Remove previous vote from this voter if exists
+      room.gameState.votes = room.gameState.votes.filter(
+        v => v.voterId !== voterId,
+      );
 
-    // Add new vote
-    room.gameState.votes.push({ voterId, votedForId });
+      // Add new vote
+      room.gameState.votes.push({ voterId, votedForId });
+      this.persist();
 
-    return room;
+      return room;
+    });
   }
 
   calculateVotingResults(code: string): RoomData | null {
-    const room = this.rooms.get(code);
-    if (!room) return null;
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      const votes = room.gameState.votes || [];
+      const impostors = room.gameState.players.filter(
+        p => p.role === "impostor",
+      );
+      const impostorIds = new Set(impostors.map(i => i.id));
+
+      const ejections = room.gameState.ejections || [];
+      const previouslyEjected = new Set(ejections.map(e => e.playerId));
+      const { voteCounts, ejectedId, winner } = decideVote(
+        room.gameState.votingMode || "plurality",
+        room.gameState.players,
+        votes,
+      );
+
+      const ejectedPlayer = room.gameState.players.find(
+        p => p.id === ejectedId,
+      );
+      if (ejectedPlayer) {
+        // Ejected players sit out the rest of the round
+        const mapPlayer = room.players.get(ejectedPlayer.id);
+        if (mapPlayer) mapPlayer.isAlive = false;
+        room.gameState.players = room.gameState.players.map(p =>
+          p.id === ejectedPlayer.id ? { ...p, isAlive: false } : p,
+        );
+        ejections.push({
+          playerId: ejectedPlayer.id,
+          playerName: ejectedPlayer.name,
+          role: ejectedPlayer.role,
+          specialRole: ejectedPlayer.specialRole,
+          round: room.gameState.voteRound || 1,
+        });
+      }
 
-    const votes = room.gameState.votes || [];
-    const impostors = room.gameState.players.filter(p => p.role === "impostor");
-    const impostorIds = new Set(impostors.map(i => i.id));
+      // Players who didn't vote in time abstain
+      const voters = new Set(votes.map(vote => vote.voterId));
 
-    // Count votes for each player
-    const voteCounts = new Map<string, number>();
-    room.gameState.players.forEach(p => {
-      voteCounts.set(p.id, 0);
-    });
+      // Calculate who voted correctly (voted for an impostor)
+      const correctVoters = new Set<string>();
+      votes.forEach(vote => {
+        if (impostorIds.has(vote.votedForId)) {
+          correctVoters.add(vote.voterId);
+        }
+      });
+
+      // Create voting results
+      const roundPlayers = room.gameState.players.filter(p => !p.isSpectator);
+      const votingResults = roundPlayers.map(player => ({
+        playerId: player.id,
+        playerName: player.name,
+        voteCount: voteCounts.get(player.id) || 0,
+        isImpostor: impostorIds.has(player.id),
+        correctVote: correctVoters.has(player.id),
+        abstained: !previouslyEjected.has(player.id) && !voters.has(player.id),
+        ejected: player.id === ejectedId,
+      }));
+
+      room.gameState.ejections = ejections;
+      room.gameState.votingResults = votingResults;
+
+      // Roles like the jester win alone and end the round right away
+      const soloWinners = getSoloWinners(
+        roundPlayers,
+        ejectedId ? [ejectedId] : [],
+      );
+      if (soloWinners.length > 0) {
+        room.gameState.winners = soloWinners;
+        room.gameState.caughtImpostorIds = [];
+        room.gameState.impostorGuesses = [];
+        this.persist();
+        return room;
+      }
+
+      if (!winner) {
+        // The elimination game goes on with another vote
+        room.gameState.winners = undefined;
+        room.gameState.caughtImpostorIds = undefined;
+        this.persist();
+        return room;
+      }
+
+      // The winning team wins as a whole, except for neutral roles. Ejected
+      // impostors are caught, and get a last chance to steal the win (see
+      // submitImpostorGuess)
+      const winners = getTeamWinners(
+        roundPlayers,
+        winner === "crew" ? "player" : "impostor",
+      );
+      const caughtImpostorIds =
+        winner === "crew"
+          ? ejections
+              .filter(e => impostorIds.has(e.playerId))
+              .map(e => e.playerId)
+          : [];
+
+      room.gameState.votingResults = votingResults;
+      room.gameState.winners = winners;
+      room.gameState.caughtImpostorIds = caughtImpostorIds;
+      room.gameState.impostorGuesses = [];
+      this.persist();
 
-    votes.forEach(vote => {
-      const count = voteCounts.get(vote.votedForId) || 0;
-      voteCounts.set(vote.votedForId, count + 1);
+      return room;
     });
+  }
+
+  // Records the clue of the player whose turn it is, or no clue if their
+  // turn ran out, and passes the turn to the next player
+  recordClue(code: string, text?: string): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
 
-    // Calculate who voted correctly (voted for an impostor)
-    const correctVoters = new Set<string>();
-    votes.forEach(vote => {
-      if (impostorIds.has(vote.votedForId)) {
-        correctVoters.add(vote.voterId);
+      const { clueTurnOrder = [], clueTurnIndex = 0 } = room.gameState;
+      const player = room.players.get(clueTurnOrder[clueTurnIndex]);
+      if (player) {
+        room.gameState.clues = [
+          ...(room.gameState.clues || []),
+          {
+            playerId: player.id,
+            playerName: player.name,
+            text,
+            voteRound: room.gameState.voteRound || 1,
+          },
+        ];
       }
+      room.gameState.clueTurnIndex = clueTurnIndex + 1;
+      this.persist();
+      return room;
     });
+  }
 
-    // Determine winners:
-    // - If any impostor was correctly identified by at least one vote,
-    //   players who voted correctly win
-    // - If no impostor was identified, impostors win
-    let winners: string[] = [];
+  // Records a detective's check of another player. The result only goes to
+  // the detective, through their private data.
+  addInvestigation(
+    code: string,
+    detectiveId: string,
+    playerId: string,
+  ): Investigation | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      const player = room?.players.get(playerId);
+      if (!room || !player) return null;
+
+      const investigation: Investigation = {
+        detectiveId,
+        playerId,
+        playerName: player.name,
+        isImpostor: player.role === "impostor",
+        voteRound: room.gameState.voteRound || 1,
+      };
+      room.gameState.investigations = [
+        ...(room.gameState.investigations || []),
+        investigation,
+      ];
+      this.persist();
+      return investigation;
+    });
+  }
 
-    const impostorsIdentified = Array.from(impostorIds).some(
-      impostorId => (voteCounts.get(impostorId) || 0) > 0,
-    );
+  // Records a caught impostor's guess; a correct one wins the round for the
+  // impostors
+  submitImpostorGuess(
+    code: string,
+    playerId: string,
+    guess: string,
+  ): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      const player = room?.players.get(playerId);
+      if (!room || !player) return null;
+
+      const correct = isCorrectGuess(guess, room.gameState.currentWord);
+      room.gameState.impostorGuesses = [
+        ...(room.gameState.impostorGuesses || []),
+        { playerId, playerName: player.name, guess, correct },
+      ];
+
+      if (correct) {
+        room.gameState.winners = room.gameState.players
+          .filter(p => p.role === "impostor")
+          .map(p => p.id);
+      }
+      this.persist();
 
-    if (impostorsIdentified) {
-      // Players who voted correctly win
-      winners = Array.from(correctVoters);
-    } else {
-      // Impostors win
-      winners = Array.from(impostorIds);
-    }
+      return room;
+    });
+  }
 
-    // Update wins for winners
-    winners.forEach(winnerId => {
-      const player = room.players.get(winnerId);
-      if (player) {
-        player.wins = (player.wins || 0) + 1;
+  // Awards wins and points once the round is decided
+  scoreRound(code: string): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      // Update wins for winners
+      (room.gameState.winners || []).forEach(winnerId => {
+        const player = room.players.get(winnerId);
+        if (player) {
+          player.wins = (player.wins || 0) + 1;
+        }
+      });
+
+      const points = calculateRoundPoints(
+        room.gameState,
+        room.gameState.scoringRules,
+      );
+      points.forEach((roundPoints, playerId) => {
+        const player = room.players.get(playerId);
+        if (player) {
+          player.score = (player.score || 0) + roundPoints;
+        }
+      });
+      room.gameState.votingResults = room.gameState.votingResults?.map(
+        result => ({ ...result, points: points.get(result.playerId) || 0 }),
+      );
+
+      if (room.match) {
+        room.match.history.push({
+          round: room.match.currentRound,
+          category: room.gameState.currentCategory,
+          word: room.gameState.currentWord,
+          impostorIds: room.gameState.players
+            .filter(p => p.role === "impostor")
+            .map(p => p.id),
+          winners: room.gameState.winners || [],
+          points: Object.fromEntries(points),
+          clues: room.gameState.clues,
+        });
       }
+
+      // Update players array in gameState with new wins and scores
+      room.gameState.players = Array.from(room.players.values());
+      this.persist();
+
+      return room;
     });
+  }
 
-    // Update players array in gameState with new wins
-    room.gameState.players = Array.from(room.players.values());
+  // Starts a new match: scores start from zero and categories take turns
+  startMatch(
+    code: string,
+    totalRounds: number,
+    categories: string[],
+  ): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      room.match = {
+        totalRounds,
+        currentRound: 1,
+        categories: shuffle(categories),
+        history: [],
+      };
+      room.players.forEach(player => {
+        player.wins = 0;
+        player.score = 0;
+      });
+      this.persist();
+
+      return room;
+    });
+  }
 
-    // Create voting results
-    const votingResults = room.gameState.players.map(player => ({
-      playerId: player.id,
-      playerName: player.name,
-      voteCount: voteCounts.get(player.id) || 0,
-      isImpostor: impostorIds.has(player.id),
-      correctVote: correctVoters.has(player.id),
-    }));
+  // Moves the match on to its next round and returns that round's category
+  nextMatchRound(code: string): string | null {
+    return this.withRoomLock(code, () => {
+      const match = this.rooms.get(code)?.match;
+      if (!match || match.history.length >= match.totalRounds) return null;
 
-    room.gameState.votingResults = votingResults;
-    room.gameState.winners = winners;
+      match.currentRound = match.history.length + 1;
+      this.persist();
 
-    return room;
+      return match.categories[
+        (match.currentRound - 1) % match.categories.length
+      ];
+    });
+  }
+
+  endMatch(code: string): RoomData | null {
+    return this.withRoomLock(code, () => {
+      const room = this.rooms.get(code);
+      if (!room) return null;
+
+      room.match = undefined;
+      this.persist();
+
+      return room;
+    });
+  }
+
+  // Open public rooms for the room browser, newest first
+  listPublicRooms(): PublicRoomSummary[] {
+    const rooms = this.sharedStore
+      ? this.sharedStore.load()
+      : Array.from(this.rooms.values());
+
+    return rooms
+      .filter(room => room.gameState.isPublic && !room.gameState.locked)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(room => ({
+        code: room.code,
+        hostName: room.players.get(room.hostId)?.name ?? "",
+        playerCount: room.players.size,
+        maxPlayers: room.gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS,
+        language: room.gameState.language,
+        phase: room.gameState.phase,
+        gameStarted: room.gameState.gameStarted,
+        hasPassword: !!room.passwordHash,
+      }));
+  }
+
+  // Every room, including the ones other processes keep in a shared store
+  getRoomCodes(): string[] {
+    if (this.sharedStore) return this.sharedStore.load().map(room => room.code);
+    return Array.from(this.rooms.keys());
   }
 
   getRoomCount(): number {
+    if (this.sharedStore) return this.sharedStore.load().length;
     return this.rooms.size;
   }
 
   deleteRoom(code: string): boolean {
-    return this.rooms.delete(code);
+    return this.withRoomLock(code, () => {
+      const deleted = this.rooms.delete(code);
+      if (deleted) this.persist();
+      return deleted;
+    });
   }
 
   // Cleanup old rooms and disconnected players
@@ -309,52 +828,65 @@ class RoomManager {
     const now = new Date();
     let cleaned = 0;
 
-    for (const [code, room] of this.rooms.entries()) {
-      const ageMinutes = (now.getTime() - room.createdAt.getTime()) / 1000 / 60;
-      const inactiveMinutes = room.lastActivityAt
-        ? (now.getTime() - room.lastActivityAt.getTime()) / 1000 / 60
-        : ageMinutes;
-
-      // Delete rooms older than maxAgeMinutes or inactive for 10+ minutes
-      if (ageMinutes > maxAgeMinutes || inactiveMinutes > 10) {
-        this.rooms.delete(code);
-        cleaned++;
-        console.log("Cleaned up room:", {
-          code,
-          ageMinutes: ageMinutes.toFixed(1),
-          inactiveMinutes: inactiveMinutes.toFixed(1),
-        });
-        continue;
-      }
+    // With a shared store, check every room, not just the ones cached here
+    const codes = this.getRoomCodes();
+    if (this.sharedStore) this.rooms.clear();
+
+    for (const code of codes) {
+      this.withRoomLock(code, () => {
+        const room = this.rooms.get(code);
+        if (!room) return;
+
+        const ageMinutes =
+          (now.getTime() - room.createdAt.getTime()) / 1000 / 60;
+        const inactiveMinutes = room.lastActivityAt
+          ? (now.getTime() - room.lastActivityAt.getTime()) / 1000 / 60
+          : ageMinutes;
+
+        // Delete rooms older than maxAgeMinutes or inactive for 10+ minutes
+        if (ageMinutes > maxAgeMinutes || inactiveMinutes > 10) {
+          this.rooms.delete(code);
+          cleaned++;
+          console.log("Cleaned up room:", {
+            code,
+            ageMinutes: ageMinutes.toFixed(1),
+            inactiveMinutes: inactiveMinutes.toFixed(1),
+          });
+          return;
+        }
 
-      // Remove players disconnected for more than 5 minutes
-      let playersRemoved = false;
-      for (const [playerId, player] of room.players.entries()) {
-        if (!player.isConnected) {
-          // If player has been disconnected for too long, remove them
-          // (Note: We don't track disconnect time per player, so we use room inactivity)
-          if (inactiveMinutes > 5) {
-            room.players.delete(playerId);
-            playersRemoved = true;
-            console.log("Removed inactive player:", {
-              roomCode: code,
-              playerId,
-              playerName: player.name,
-            });
+        // Remove players disconnected for more than 5 minutes
+        let playersRemoved = false;
+        for (const [playerId, player] of room.players.entries()) {
+          if (!player.isConnected) {
+            // If player has been disconnected for too long, remove them
+            // (Note: We don't track disconnect time per player, so we use room inactivity)
+            if (inactiveMinutes > 5) {
+              room.players.delete(playerId);
+              playersRemoved = true;
+              console.log("Removed inactive player:", {
+                roomCode: code,
+                playerId,
+                playerName: player.name,
+              });
+            }
           }
         }
-      }
 
-      // If all players removed, delete room
-      if (playersRemoved && room.players.size === 0) {
-        this.rooms.delete(code);
-        cleaned++;
-        console.log("Room deleted after player cleanup:", { code });
-      }
+        if (playersRemoved) this.persist();
+
+        // If all players removed, delete room
+        if (playersRemoved && room.players.size === 0) {
+          this.rooms.delete(code);
+          cleaned++;
+          console.log("Room deleted after player cleanup:", { code });
+        }
+      });
     }
 
+    if (cleaned > 0) this.persist();
     return cleaned;
   }
 }
 
-export const roomManager = new RoomManager();
+export const roomManager = new RoomManager(createRoomStore());
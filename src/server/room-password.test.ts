@@ -0,0 +1,30 @@
+import { PasswordAttemptLimiter } from "./room-password";
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+
+describe("PasswordAttemptLimiter", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 0 }));
+  afterEach(() => mock.timers.reset());
+
+  test("refuses a client after five attempts on a room", () => {
+    const limiter = new PasswordAttemptLimiter();
+    for (let i = 0; i < 5; i++) {
+      assert.ok(limiter.tryConsume("10.0.0.1", "ABCD"));
+    }
+
+    assert.equal(limiter.tryConsume("10.0.0.1", "ABCD"), false);
+    assert.ok(limiter.tryConsume("10.0.0.2", "ABCD"));
+    assert.ok(limiter.tryConsume("10.0.0.1", "EFGH"));
+  });
+
+  test("lets the client try again once the window has passed", () => {
+    const limiter = new PasswordAttemptLimiter();
+    for (let i = 0; i < 5; i++) limiter.tryConsume("10.0.0.1", "ABCD");
+
+    mock.timers.tick(59 * 1000);
+    assert.equal(limiter.tryConsume("10.0.0.1", "ABCD"), false);
+
+    mock.timers.tick(1000);
+    assert.ok(limiter.tryConsume("10.0.0.1", "ABCD"));
+  });
+});
@@ -0,0 +1,73 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+export const MAX_ROOM_PASSWORD_LENGTH = 50;
+
+const KEY_LENGTH = 32;
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_ATTEMPT_WINDOW_MS = 60 * 1000;
+
+// scrypt is slow on purpose, so it runs off the event loop
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number,
+) => Promise<Buffer>;
+
+/**
+ * Hashes a room password with a random salt, so the room store never holds
+ * the password itself. The result is `salt:hash`, both hex.
+ */
+export async function hashRoomPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyRoomPassword(
+  password: unknown,
+  passwordHash: string,
+): Promise<boolean> {
+  if (typeof password !== "string") return false;
+
+  const [salt, hash] = passwordHash.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Limits how many passwords a client can try on a room in a short window, so
+ * a room's password can't be guessed by brute force. Attempts are counted per
+ * client address rather than per socket, so reconnecting doesn't start over.
+ * Counts are kept per server process, like the sockets trying them.
+ */
+export class PasswordAttemptLimiter {
+  private triedAt = new Map<string, number[]>();
+
+  // Records the attempt and returns false if the client is over the limit
+  tryConsume(clientAddress: string, roomCode: string): boolean {
+    const now = Date.now();
+    this.dropExpired(now);
+
+    const key = `${roomCode}:${clientAddress}`;
+    const recent = this.triedAt.get(key) || [];
+    if (recent.length >= MAX_PASSWORD_ATTEMPTS) return false;
+
+    this.triedAt.set(key, [...recent, now]);
+    return true;
+  }
+
+  // Attempts older than the window no longer count, nor take up memory
+  private dropExpired(now: number): void {
+    for (const [key, times] of this.triedAt) {
+      const recent = times.filter(
+        time => now - time < PASSWORD_ATTEMPT_WINDOW_MS,
+      );
+      if (recent.length) this.triedAt.set(key, recent);
+      else this.triedAt.delete(key);
+    }
+  }
+}
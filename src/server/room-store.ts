@@ -0,0 +1,235 @@
+import type { Player } from "../types/game";
+import type { RoomData } from "./room-manager";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+
+// A lock older than this belongs to a process that died while holding it
+const LOCK_STALE_MS = 5000;
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_RETRY_MS = 5;
+
+/**
+ * Where RoomManager keeps a snapshot of its rooms. `load` runs once on boot
+ * and `save` receives every room whenever something changed.
+ */
+export interface RoomStore {
+  load(): RoomData[];
+  save(rooms: RoomData[]): void;
+}
+
+/**
+ * A store several server processes can use at once. Rooms are read and
+ * written one at a time, and `lockRoom` gives one process exclusive access to
+ * a room until the returned release function is called.
+ */
+export interface SharedRoomStore extends RoomStore {
+  loadRoom(code: string): RoomData | undefined;
+  saveRoom(room: RoomData): void;
+  deleteRoom(code: string): void;
+  lockRoom(code: string): () => void;
+}
+
+export function isSharedRoomStore(store: RoomStore): store is SharedRoomStore {
+  return "lockRoom" in store;
+}
+
+interface SerializedRoom
+  extends Omit<RoomData, "players" | "createdAt" | "lastActivityAt"> {
+  players: Player[];
+  createdAt: string;
+  lastActivityAt?: string;
+}
+
+function serializeRoom(room: RoomData): SerializedRoom {
+  return {
+    ...room,
+    players: Array.from(room.players.values()),
+    createdAt: room.createdAt.toISOString(),
+    lastActivityAt: room.lastActivityAt?.toISOString(),
+  };
+}
+
+function deserializeRoom(room: SerializedRoom): RoomData {
+  return {
+    ...room,
+    players: new Map(room.players.map(player => [player.id, player])),
+    createdAt: new Date(room.createdAt),
+    lastActivityAt: room.lastActivityAt
+      ? new Date(room.lastActivityAt)
+      : undefined,
+  };
+}
+
+// Blocks the thread; only used while waiting for a lock held for a few ms
+function sleepSync(ms: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function writeFileAtomic(filePath: string, content: string) {
+  // Write to a temporary file first so a crash never leaves half a file
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+}
+
+// Keeps nothing: rooms only live as long as the process
+export class MemoryRoomStore implements RoomStore {
+  load(): RoomData[] {
+    return [];
+  }
+
+  save(): void {}
+}
+
+// Keeps all rooms in a single JSON file that survives restarts
+export class FileRoomStore implements RoomStore {
+  constructor(private filePath: string) {}
+
+  load(): RoomData[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    try {
+      const content = fs.readFileSync(this.filePath, "utf-8");
+      const rooms = JSON.parse(content) as SerializedRoom[];
+      return rooms.map(deserializeRoom);
+    } catch (error) {
+      console.error("Failed to load rooms from file:", {
+        filePath: this.filePath,
+        error,
+      });
+      return [];
+    }
+  }
+
+  save(rooms: RoomData[]): void {
+    writeFileAtomic(this.filePath, JSON.stringify(rooms.map(serializeRoom)));
+  }
+}
+
+// Keeps one JSON file per room in a directory that every server process can
+// reach, with a lock file per room so only one process changes it at a time
+export class SharedFileRoomStore implements SharedRoomStore {
+  constructor(private dirPath: string) {}
+
+  private getPath(code: string, extension: string): string {
+    // Room codes come from clients, so never let them escape the directory
+    return path.join(this.dirPath, `${encodeURIComponent(code)}${extension}`);
+  }
+
+  load(): RoomData[] {
+    if (!fs.existsSync(this.dirPath)) return [];
+
+    return fs
+      .readdirSync(this.dirPath)
+      .filter(file => file.endsWith(".json"))
+      .map(file => this.loadRoom(decodeURIComponent(file.slice(0, -5))))
+      .filter((room): room is RoomData => room !== undefined);
+  }
+
+  save(rooms: RoomData[]): void {
+    rooms.forEach(room => this.saveRoom(room));
+  }
+
+  loadRoom(code: string): RoomData | undefined {
+    const filePath = this.getPath(code, ".json");
+
+    try {
+      const content = fs.readFileSync(filePath, "utf-8");
+      return deserializeRoom(JSON.parse(content) as SerializedRoom);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load room from file:", { filePath, error });
+      }
+      return undefined;
+    }
+  }
+
+  saveRoom(room: RoomData): void {
+    writeFileAtomic(
+      this.getPath(room.code, ".json"),
+      JSON.stringify(serializeRoom(room)),
+    );
+  }
+
+  deleteRoom(code: string): void {
+    fs.rmSync(this.getPath(code, ".json"), { force: true });
+  }
+
+  lockRoom(code: string): () => void {
+    const lockPath = this.getPath(code, ".lock");
+    const token = randomUUID();
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    fs.mkdirSync(this.dirPath, { recursive: true });
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, token, { flag: "wx" });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      if (this.isStaleLock(lockPath)) {
+        console.warn("Removing stale room lock:", { code });
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on room ${code}`);
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+
+    return () => {
+      // Only remove the lock if it is still ours and wasn't taken over as stale
+      try {
+        if (fs.readFileSync(lockPath, "utf-8") === token) {
+          fs.rmSync(lockPath, { force: true });
+        }
+      } catch {
+        // Already gone
+      }
+    };
+  }
+
+  private isStaleLock(lockPath: string): boolean {
+    try {
+      return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Restored rooms can only be rejoined with tokens signed by the same secret,
+// and a generated one changes on every restart
+function requireSessionSecret(store: string) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error(
+      `SESSION_SECRET must be set when ROOM_STORE=${store}, or players can't rejoin restored rooms`,
+    );
+  }
+}
+
+export function createRoomStore(): RoomStore {
+  if (process.env.ROOM_STORE === "shared") {
+    requireSessionSecret("shared");
+    const dirPath = path.resolve(process.env.ROOM_STORE_PATH || ".data/rooms");
+    console.log("Using shared file room store:", { dirPath });
+    return new SharedFileRoomStore(dirPath);
+  }
+
+  if (process.env.ROOM_STORE === "file") {
+    requireSessionSecret("file");
+    const filePath = path.resolve(
+      process.env.ROOM_STORE_PATH || ".data/rooms.json",
+    );
+    console.log("Using file room store:", { filePath });
+    return new FileRoomStore(filePath);
+  }
+
+  return new MemoryRoomStore();
+}
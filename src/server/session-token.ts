@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Long enough to survive a phone going to sleep mid-match
+const SESSION_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionPayload {
+  roomCode: string;
+  playerId: string;
+  issuedAt: number;
+}
+
+function getSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  // Tokens signed with a random secret stop working after a restart and
+  // aren't accepted by other server processes
+  console.warn("SESSION_SECRET is not set, using a random secret");
+  process.env.SESSION_SECRET = randomBytes(32).toString("hex");
+  return process.env.SESSION_SECRET;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Issues the token a player presents to get their seat back after a
+ * reconnect. It is signed, so knowing a player ID is not enough to take over
+ * that player's seat.
+ */
+export function createSessionToken(roomCode: string, playerId: string): string {
+  const payload: SessionPayload = { roomCode, playerId, issuedAt: Date.now() };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+export function verifySessionToken(token: unknown): SessionPayload | null {
+  if (typeof token !== "string") return null;
+
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(data, "base64url").toString("utf-8"),
+    ) as SessionPayload;
+
+    if (Date.now() - payload.issuedAt > SESSION_TOKEN_MAX_AGE_MS) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
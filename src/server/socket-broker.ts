@@ -0,0 +1,48 @@
+import net from "net";
+
+/**
+ * Minimal message relay for running several game servers locally: every
+ * newline-delimited message a server sends is forwarded to all other
+ * connected servers. In production a real pub/sub broker takes its place.
+ */
+export function startSocketBroker(port: number): net.Server {
+  const connections = new Set<net.Socket>();
+
+  const server = net.createServer(connection => {
+    connections.add(connection);
+    console.log("Server connected to broker:", {
+      address: connection.remoteAddress,
+      servers: connections.size,
+    });
+
+    let buffer = "";
+    connection.setEncoding("utf-8");
+    connection.on("data", (chunk: string) => {
+      buffer += chunk;
+      const end = buffer.lastIndexOf("\n");
+      if (end === -1) return;
+
+      // Only relay complete lines so messages never interleave
+      const lines = buffer.slice(0, end + 1);
+      buffer = buffer.slice(end + 1);
+      connections.forEach(other => {
+        if (other !== connection) other.write(lines);
+      });
+    });
+    connection.on("error", error => {
+      console.error("Broker connection error:", error.message);
+    });
+    connection.on("close", () => {
+      connections.delete(connection);
+      console.log("Server disconnected from broker:", {
+        servers: connections.size,
+      });
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`> Socket broker listening on port ${port}`);
+  });
+
+  return server;
+}
@@ -1,25 +1,172 @@
+import { isPlaying } from "../lib/players";
+import { assignRoles, recordImpostors } from "../lib/role-assignment";
+import { getRoleDefinition } from "../lib/roles";
+import { getStartBlocker } from "../lib/room-limits";
+import { containsWord } from "../lib/word-guess";
 import type {
-  CreateRoomData,
-  JoinRoomData,
+  ChatMessage,
+  GameConfig,
   GameState,
-  NotificationData,
+  PlayerTargetData,
+  RoomEntryData,
 } from "../types/game";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  SocketCallback,
+} from "../types/socket-events";
+import { createBrokerAdapter } from "./broker-adapter";
+import {
+  ChatRateLimiter,
+  filterProfanity,
+  getChatError,
+  isImpostorTeamMember,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from "./chat";
+import {
+  getChatHistory,
+  getPrivatePlayerData,
+  getPublicGameState,
+  getPublicPlayers,
+  getPublicTimer,
+} from "./game-view";
+import { MatchmakingQueue } from "./matchmaking";
+import type { QueueEntry } from "./matchmaking";
+import { getHostPhaseChangeError } from "./phase-rules";
+import { getRemainingMs, PhaseTimers } from "./phase-timer";
 import { roomManager } from "./room-manager";
+import type { RoomData } from "./room-manager";
+import {
+  hashRoomPassword,
+  MAX_ROOM_PASSWORD_LENGTH,
+  PasswordAttemptLimiter,
+  verifyRoomPassword,
+} from "./room-password";
+import { createSessionToken, verifySessionToken } from "./session-token";
+import { validateSocketPayloads } from "./socket-schemas";
+import { selectWord, selectWordPair } from "./word-selector";
+import { randomUUID } from "crypto";
 import type { Server as HTTPServer } from "http";
-import type { Server as IOServer } from "socket.io";
+import type {
+  DefaultEventsMap,
+  Server as IOServer,
+  Socket as IOSocket,
+} from "socket.io";
 import { Server } from "socket.io";
 
+// Stored on socket.data so other server processes can see it via fetchSockets()
+export interface SocketData {
+  roomCode?: string;
+  playerId?: string;
+}
+
+type GameServer = IOServer<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
+
+type GameSocket = IOSocket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  DefaultEventsMap,
+  SocketData
+>;
+
 interface SocketServer extends HTTPServer {
-  io?: IOServer;
+  io?: GameServer;
 }
 
-export interface ExtendedSocket {
-  roomCode?: string;
-  playerId?: string;
+const CLUE_TURN_SECONDS = 30;
+const MAX_CLUE_LENGTH = 30;
+const IMPOSTOR_GUESS_SECONDS = 60;
+const MAX_GUESS_LENGTH = 50;
+// How long the final standings of a match show before the lobby returns
+const STANDINGS_SECONDS = 30;
+const MAX_TIMER_EXTENSION_SECONDS = 5 * 60;
+const DEFAULT_TIMER_EXTENSION_SECONDS = 30;
+
+// Rooms currently generating a word for a new round, so a double click on
+// "start" can't assign roles twice
+const roomsStartingRound = new Set<string>();
+
+// Why the round's players can't be dealt in, as the host will read it
+function getStartError(playerCount: number, config: GameConfig): string | null {
+  const blocker = getStartBlocker(
+    playerCount,
+    config.impostorCount,
+    config.minPlayers,
+  );
+  if (!blocker) return null;
+  return blocker.reason === "notEnoughPlayers"
+    ? `Need at least ${blocker.minPlayers} players to start`
+    : `${playerCount} players are too few for ${config.impostorCount} impostors`;
+}
+
+// Sends the public game state to every socket in the room together with that
+// socket's own role and word, so no client receives another player's secret
+async function emitGameState(
+  io: GameServer,
+  room: RoomData,
+  event: "game-started" | "phase-changed",
+) {
+  // Build the payloads now; the room may change while sockets are fetched
+  const gameState = getPublicGameState(room);
+  const privateDataByPlayer = new Map(
+    room.gameState.players.map(p => [p.id, getPrivatePlayerData(room, p.id)]),
+  );
+
+  try {
+    // Includes sockets connected to other server processes
+    const sockets = await io.in(room.code).fetchSockets();
+    sockets.forEach(clientSocket => {
+      const { playerId } = clientSocket.data;
+      const payload = {
+        gameState,
+        privateData: playerId ? privateDataByPlayer.get(playerId) : undefined,
+      };
+      if (event === "phase-changed") {
+        clientSocket.emit(event, { phase: gameState.phase, ...payload });
+      } else {
+        clientSocket.emit(event, payload);
+      }
+    });
+  } catch (error) {
+    console.error("Error sending game state:", { roomCode: room.code, error });
+  }
+}
+
+// Sends a chat message to everyone in the room, or only to the round's
+// impostors for their channel
+async function emitChatMessage(
+  io: GameServer,
+  room: RoomData,
+  message: ChatMessage,
+) {
+  if (message.channel === "room") {
+    io.in(room.code).emit("chat-message", message);
+    return;
+  }
+
+  const impostorIds = new Set(
+    room.gameState.players.filter(isImpostorTeamMember).map(p => p.id),
+  );
+  try {
+    const sockets = await io.in(room.code).fetchSockets();
+    sockets
+      .filter(s => s.data.playerId && impostorIds.has(s.data.playerId))
+      .forEach(s => s.emit("chat-message", message));
+  } catch (error) {
+    console.error("Error sending chat message:", {
+      roomCode: room.code,
+      error,
+    });
+  }
 }
 
 export function initializeSocketServer(server: HTTPServer) {
-  const io = new Server(server, {
+  const io: GameServer = new Server(server, {
     path: "/api/socket",
     addTrailingSlash: false,
     cors: {
@@ -28,29 +175,379 @@ export function initializeSocketServer(server: HTTPServer) {
     },
   });
 
+  // Relay broadcasts between server processes when running more than one
+  if (process.env.SOCKET_BROKER_URL) {
+    io.adapter(createBrokerAdapter(process.env.SOCKET_BROKER_URL));
+  }
+
   // Store io instance on server
   (server as SocketServer).io = io;
 
+  const chatLimiter = new ChatRateLimiter();
+  const passwordAttempts = new PasswordAttemptLimiter();
+  const matchmaking = new MatchmakingQueue();
+
+  const timers = new PhaseTimers((roomCode, phase) => {
+    // The player's turn is up: they give no clue
+    if (phase === "clues") advanceClueTurn(roomCode);
+    // Discussion time is up: move on to voting
+    if (phase === "discussion") changePhase(roomCode, "voting");
+    // Voting time is up: whoever hasn't voted abstains
+    if (phase === "voting") revealVotingResults(roomCode);
+    // Caught impostors who haven't guessed by now lose their chance
+    if (phase === "impostorguess") finishRound(roomCode);
+    // The match is over: everyone goes back to the lobby
+    if (phase === "standings") returnToLobby(roomCode);
+  });
+  timers.restore();
+
+  // Moves a room to another phase and starts that phase's timer, if it has
+  // one. Used by the host's change-phase and when a timer runs out.
+  function changePhase(
+    roomCode: string,
+    phase: GameState["phase"],
+  ): RoomData | null {
+    return roomManager.withRoomLock(roomCode, () => {
+      const room = roomManager.getRoom(roomCode);
+      if (!room) return null;
+
+      // With clue rounds, every discussion starts with everyone's clue
+      const nextPhase =
+        phase === "discussion" &&
+        room.gameState.clueRound &&
+        room.gameState.phase !== "clues"
+          ? "clues"
+          : phase;
+
+      // Prepare the update
+      const update: Partial<GameState> = { phase: nextPhase };
+
+      // Select a random starting player, unless the clue round already did
+      if (
+        nextPhase === "clues" ||
+        (nextPhase === "discussion" && room.gameState.phase !== "clues")
+      ) {
+        // Spectators and ejected players don't get to speak
+        const players = Array.from(room.players.values()).filter(isPlaying);
+        const startPlayerIndex = Math.floor(Math.random() * players.length);
+        update.startingPlayerId = players[startPlayerIndex].id;
+
+        if (nextPhase === "clues") {
+          // Everyone in turn, from the starting player on
+          update.clueTurnOrder = [
+            ...players.slice(startPlayerIndex),
+            ...players.slice(0, startPlayerIndex),
+          ].map(p => p.id);
+          update.clueTurnIndex = 0;
+        }
+      }
+
+      timers.stop(roomCode);
+      const updatedRoom = roomManager.updateGameState(roomCode, update);
+      if (!updatedRoom) return null;
+
+      if (nextPhase === "clues") {
+        timers.start(roomCode, "clues", CLUE_TURN_SECONDS * 1000);
+      }
+
+      const { discussionDuration, votingDuration } = updatedRoom.gameState;
+      if (nextPhase === "discussion" && discussionDuration) {
+        timers.start(roomCode, "discussion", discussionDuration * 1000);
+      }
+      if (phase === "voting" && votingDuration) {
+        timers.start(roomCode, "voting", votingDuration * 1000);
+      }
+      if (phase === "impostorguess") {
+        timers.start(roomCode, "impostorguess", IMPOSTOR_GUESS_SECONDS * 1000);
+      }
+      if (phase === "standings") {
+        timers.start(roomCode, "standings", STANDINGS_SECONDS * 1000);
+      }
+
+      // Notify all players including the host
+      emitGameState(io, updatedRoom, "phase-changed");
+      return updatedRoom;
+    });
+  }
+
+  // Records the current player's clue, or none when their time ran out, and
+  // passes the turn on. The discussion starts after the last player's turn.
+  function advanceClueTurn(roomCode: string, text?: string): RoomData | null {
+    return roomManager.withRoomLock(roomCode, () => {
+      const room = roomManager.recordClue(roomCode, text);
+      if (!room) return null;
+
+      const {
+        clues = [],
+        clueTurnOrder = [],
+        clueTurnIndex = 0,
+      } = room.gameState;
+      if (clueTurnIndex >= clueTurnOrder.length) {
+        return changePhase(roomCode, "discussion");
+      }
+
+      const timer = timers.start(roomCode, "clues", CLUE_TURN_SECONDS * 1000);
+      io.in(roomCode).emit("clue-submitted", {
+        clues,
+        clueTurnIndex,
+        timer: getPublicTimer(timer),
+      });
+      return room;
+    });
+  }
+
+  // Tallies the votes under the room's voting mode. In elimination games
+  // nobody has won yet after most votes, so the remaining players discuss
+  // and vote again. Otherwise caught impostors get a last chance to guess
+  // the word, or the round is over. Used by the host's calculate-votes and
+  // when the voting timer runs out.
+  function revealVotingResults(roomCode: string): RoomData | null {
+    return roomManager.withRoomLock(roomCode, () => {
+      const room = roomManager.calculateVotingResults(roomCode);
+      if (!room) return null;
+
+      if (!room.gameState.winners) {
+        roomManager.updateGameState(roomCode, {
+          votes: [],
+          voteRound: (room.gameState.voteRound || 1) + 1,
+        });
+        return changePhase(roomCode, "discussion");
+      }
+
+      if (room.gameState.caughtImpostorIds?.length) {
+        return changePhase(roomCode, "impostorguess");
+      }
+      return finishRound(roomCode);
+    });
+  }
+
+  // Awards the round's wins and points and moves the room to the results
+  function finishRound(roomCode: string): RoomData | null {
+    return roomManager.withRoomLock(roomCode, () => {
+      timers.stop(roomCode);
+
+      const updatedRoom = roomManager.scoreRound(roomCode);
+      if (!updatedRoom) return null;
+
+      // Change phase to results
+      roomManager.updateGameState(roomCode, {
+        phase: "results",
+      });
+
+      // Notify all players including the host
+      io.in(roomCode).emit("voting-results", {
+        votingResults: updatedRoom.gameState.votingResults,
+        winners: updatedRoom.gameState.winners,
+        players: Array.from(updatedRoom.players.values()),
+        impostors: updatedRoom.gameState.players.filter(
+          p => p.role === "impostor",
+        ),
+        word: updatedRoom.gameState.currentWord,
+      });
+
+      // Also emit phase change
+      emitGameState(io, updatedRoom, "phase-changed");
+      return updatedRoom;
+    });
+  }
+
+  // Ends the match and sends everyone back to the lobby, keeping the scores
+  function returnToLobby(roomCode: string): RoomData | null {
+    const lobby = roomManager.withRoomLock(roomCode, () => {
+      timers.stop(roomCode);
+      roomManager.endMatch(roomCode);
+
+      // Whoever joined mid-match gets dealt in next time
+      const room = roomManager.getRoom(roomCode);
+      room?.players.forEach(p => {
+        p.isSpectator = false;
+      });
+
+      const updatedRoom = roomManager.updateGameState(roomCode, {
+        phase: "setup",
+        gameStarted: false,
+        currentWord: "",
+        currentHints: [],
+        currentCategory: "",
+        votes: [],
+        votingResults: undefined,
+        winners: undefined,
+        caughtImpostorIds: undefined,
+        impostorGuesses: undefined,
+        ejections: undefined,
+        voteRound: undefined,
+        clues: undefined,
+        investigations: undefined,
+        players: room?.gameState.players.map(p => ({
+          ...p,
+          isSpectator: false,
+        })),
+      });
+      if (!updatedRoom) return null;
+
+      emitGameState(io, updatedRoom, "phase-changed");
+      return updatedRoom;
+    });
+
+    // Public lobbies have room for queued players again
+    if (lobby) matchWaitingPlayers();
+    return lobby;
+  }
+
+  // Puts the socket in the room as the given player and builds what the
+  // client needs to show the room and get back in after a reconnect
+  function enterRoom(
+    socket: GameSocket,
+    room: RoomData,
+    playerId: string,
+  ): RoomEntryData {
+    socket.join(room.code);
+    socket.data.roomCode = room.code;
+    socket.data.playerId = playerId;
+
+    return {
+      roomCode: room.code,
+      playerId,
+      sessionToken: createSessionToken(room.code, playerId),
+      room: {
+        code: room.code,
+        hostId: room.hostId,
+        players: getPublicPlayers(room),
+        gameState: getPublicGameState(room),
+      },
+    };
+  }
+
+  // Quick match: seat the player in an open public lobby of their language
+  // with space left, or open a new public room once enough players are
+  // waiting for the same language and room size
+  function matchQueuedPlayer(entry: QueueEntry): void {
+    const socket = io.sockets.sockets.get(entry.socketId);
+    if (!socket) {
+      matchmaking.remove(entry.socketId);
+      return;
+    }
+
+    const openRoom = roomManager
+      .listPublicRooms()
+      .find(
+        room =>
+          !room.gameStarted &&
+          !room.hasPassword &&
+          (room.language ?? "en") === entry.language &&
+          room.playerCount < Math.min(entry.preferredPlayers, room.maxPlayers),
+      );
+
+    if (openRoom) {
+      const seated = roomManager.withRoomLock(openRoom.code, () => {
+        if (roomManager.getJoinError(openRoom.code)) {
+          return false;
+        }
+
+        const playerId = randomUUID();
+        const room = roomManager.joinRoom(
+          openRoom.code,
+          playerId,
+          entry.playerName,
+        );
+        if (!room) return false;
+
+        matchmaking.remove(entry.socketId);
+        socket.to(room.code).emit("player-joined", {
+          playerId,
+          playerName: entry.playerName,
+          players: getPublicPlayers(room),
+        });
+        socket.emit("match-found", enterRoom(socket, room, playerId));
+        console.log("Quick match joined room:", {
+          roomCode: room.code,
+          playerId,
+        });
+        return true;
+      });
+      if (seated) return;
+    }
+
+    const group = matchmaking.takeGroup(entry.language, entry.preferredPlayers);
+    if (!group) return;
+
+    // The longest waiting player hosts
+    const playerIds = group.map(() => randomUUID());
+    const created = roomManager.createRoom(playerIds[0], group[0].playerName, {
+      isPublic: true,
+    });
+
+    roomManager.withRoomLock(created.code, () => {
+      group.slice(1).forEach((queued, i) => {
+        roomManager.joinRoom(created.code, playerIds[i + 1], queued.playerName);
+      });
+      const room = roomManager.updateGameState(created.code, {
+        language: entry.language,
+        maxPlayers: entry.preferredPlayers,
+      });
+      if (!room) return;
+
+      group.forEach((queued, i) => {
+        const queuedSocket = io.sockets.sockets.get(queued.socketId);
+        queuedSocket?.emit(
+          "match-found",
+          enterRoom(queuedSocket, room, playerIds[i]),
+        );
+      });
+      console.log("Quick match created room:", {
+        roomCode: room.code,
+        language: entry.language,
+        playersCount: room.players.size,
+      });
+    });
+  }
+
+  // Gives everyone still queued another chance, oldest first. Called when the
+  // queue grows or a public room may have a free seat.
+  function matchWaitingPlayers(): void {
+    for (const entry of matchmaking.getAll()) {
+      // Someone matched before them may have taken them along
+      if (matchmaking.has(entry.socketId)) matchQueuedPlayer(entry);
+    }
+  }
+
   io.on("connection", socket => {
+    validateSocketPayloads(socket);
+
+    // Why the password doesn't let this socket into the room, if it doesn't
+    async function getPasswordError(
+      roomCode: string,
+      password: string | undefined,
+    ): Promise<string | null> {
+      const passwordHash = roomManager.getRoom(roomCode)?.passwordHash;
+      if (!passwordHash) return null;
+      if (!password) return "This room needs a password";
+
+      if (!passwordAttempts.tryConsume(socket.handshake.address, roomCode)) {
+        return "Too many password attempts, try again in a minute";
+      }
+      if (!(await verifyRoomPassword(password, passwordHash))) {
+        return "Wrong password";
+      }
+      return null;
+    }
+
     // Create room
-    socket.on("create-room", (data: CreateRoomData, callback) => {
+    socket.on("create-room", async (data, callback) => {
       try {
-        const room = roomManager.createRoom(socket.id, data.hostName);
-        socket.join(room.code);
-        (socket as unknown as ExtendedSocket).roomCode = room.code;
-        (socket as unknown as ExtendedSocket).playerId = socket.id;
+        const playerId = randomUUID();
+        const password = data.password?.trim() ?? "";
+        if (password.length > MAX_ROOM_PASSWORD_LENGTH) {
+          callback({ success: false, error: "Password is too long" });
+          return;
+        }
 
-        callback({
-          success: true,
-          roomCode: room.code,
-          playerId: socket.id,
-          room: {
-            code: room.code,
-            hostId: room.hostId,
-            players: Array.from(room.players.values()),
-            gameState: room.gameState,
-          },
+        const room = roomManager.createRoom(playerId, data.hostName, {
+          isPublic: data.isPublic === true,
+          passwordHash: password ? await hashRoomPassword(password) : undefined,
         });
+        callback({ success: true, ...enterRoom(socket, room, playerId) });
+        matchWaitingPlayers();
       } catch (error) {
         console.error("Error creating room:", error);
         callback({
@@ -61,61 +558,93 @@ export function initializeSocketServer(server: HTTPServer) {
     });
 
     // Join room
-    socket.on("join-room", (data: JoinRoomData, callback) => {
+    socket.on("join-room", async (data, callback) => {
       try {
+        const playerId = randomUUID();
         console.log("Player attempting to join room:", {
           roomCode: data.roomCode,
-          playerId: socket.id,
+          playerId,
           playerName: data.playerName,
         });
 
-        const room = roomManager.joinRoom(
-          data.roomCode,
-          socket.id,
-          data.playerName,
-        );
+        // Bans follow the session the player had in this room before, so
+        // they only hold while the client keeps its session token
+        const previousSession = verifySessionToken(data.sessionToken);
+        const previousPlayerId =
+          previousSession?.roomCode === data.roomCode
+            ? previousSession.playerId
+            : undefined;
+
+        // Missing, locked or full rooms and banned players are turned away
+        // before any password is tried
+        const joinError =
+          roomManager.getJoinError(data.roomCode, previousPlayerId) ??
+          (await getPasswordError(data.roomCode, data.password?.trim()));
+        if (joinError) {
+          console.log("Join room failed:", {
+            roomCode: data.roomCode,
+            playerId,
+            reason: joinError,
+          });
+          callback({ success: false, error: joinError });
+          return;
+        }
+
+        // Checked again under the room's lock so two players can't both take
+        // the last seat
+        const joined = roomManager.withRoomLock(data.roomCode, () => {
+          const error = roomManager.getJoinError(
+            data.roomCode,
+            previousPlayerId,
+          );
+          if (error) return { error };
+          return {
+            room: roomManager.joinRoom(
+              data.roomCode,
+              playerId,
+              data.playerName,
+            ),
+          };
+        });
+        if (joined.error) {
+          console.log("Join room failed:", {
+            roomCode: data.roomCode,
+            playerId,
+            reason: joined.error,
+          });
+          callback({ success: false, error: joined.error });
+          return;
+        }
 
+        const room = joined.room;
         if (!room) {
           console.log("Join room failed:", {
             roomCode: data.roomCode,
-            playerId: socket.id,
-            reason: "Room not found or game already started",
+            playerId,
+            reason: "Room not found",
           });
           callback({
             success: false,
-            error: "Room not found or game already started",
+            error: "Room not found",
           });
           return;
         }
 
         console.log("Player joined successfully:", {
           roomCode: data.roomCode,
-          playerId: socket.id,
+          playerId,
           gameStarted: room.gameState.gameStarted,
           playersCount: room.players.size,
         });
 
-        socket.join(data.roomCode);
-        (socket as unknown as ExtendedSocket).roomCode = data.roomCode;
-        (socket as unknown as ExtendedSocket).playerId = socket.id;
-
         // Notify others in the room
         socket.to(data.roomCode).emit("player-joined", {
-          playerId: socket.id,
+          playerId,
           playerName: data.playerName,
-          players: Array.from(room.players.values()),
+          players: getPublicPlayers(room),
         });
 
-        callback({
-          success: true,
-          playerId: socket.id,
-          room: {
-            code: room.code,
-            hostId: room.hostId,
-            players: Array.from(room.players.values()),
-            gameState: room.gameState,
-          },
-        });
+        callback({ success: true, ...enterRoom(socket, room, playerId) });
       } catch (error) {
         console.error("Error joining room:", error);
         callback({
@@ -125,12 +654,21 @@ export function initializeSocketServer(server: HTTPServer) {
       }
     });
 
-    // Rejoin room after disconnection
-    socket.on(
-      "rejoin-room",
-      (data: { roomCode: string; oldPlayerId: string }, callback) => {
-        try {
-          const room = roomManager.getRoom(data.roomCode);
+    // Rejoin room after disconnection, using the token issued on create/join
+    socket.on("rejoin-room", (data, callback) => {
+      try {
+        const session = verifySessionToken(data.sessionToken);
+        if (!session) {
+          callback({
+            success: false,
+            error: "Invalid session",
+          });
+          return;
+        }
+
+        const { roomCode, playerId } = session;
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
 
           if (!room) {
             callback({
@@ -140,122 +678,134 @@ export function initializeSocketServer(server: HTTPServer) {
             return;
           }
 
-          // Check if old player exists in room
-          const oldPlayer = room.players.get(data.oldPlayerId);
-
-          if (oldPlayer) {
-            // Update existing player with new socket ID
-            const updatedPlayer = {
-              ...oldPlayer,
-              id: socket.id,
-              isConnected: true,
-            };
-            room.players.delete(data.oldPlayerId);
-            room.players.set(socket.id, updatedPlayer);
-
-            // Update gameState players array if game started
-            if (room.gameState.gameStarted && room.gameState.players) {
-              room.gameState.players = room.gameState.players.map(p =>
-                p.id === data.oldPlayerId
-                  ? { ...p, id: socket.id, isConnected: true }
-                  : p,
-              );
-            }
-
-            // If was host, transfer host to new socket ID
-            if (room.hostId === data.oldPlayerId) {
-              room.hostId = socket.id;
-              room.gameState.hostId = socket.id;
-            }
+          const player = roomManager.rejoinRoom(roomCode, playerId);
 
-            socket.join(data.roomCode);
-            (socket as unknown as ExtendedSocket).roomCode = data.roomCode;
-            (socket as unknown as ExtendedSocket).playerId = socket.id;
+          if (player) {
+            socket.join(roomCode);
+            socket.data.roomCode = roomCode;
+            socket.data.playerId = playerId;
 
             console.log("Player rejoined successfully:", {
-              newPlayerId: socket.id,
-              oldPlayerId: data.oldPlayerId,
-              roomCode: data.roomCode,
+              playerId,
+              roomCode,
               gameStarted: room.gameState.gameStarted,
               playersCount: room.players.size,
-              wasHost: room.hostId === socket.id,
+              isHost: room.hostId === playerId,
             });
 
             // Notify ALL players (including the one who rejoined) about reconnection
-            io.in(data.roomCode).emit("player-rejoined", {
-              oldPlayerId: data.oldPlayerId,
-              newPlayerId: socket.id,
-              playerName: updatedPlayer.name,
-              players: Array.from(room.players.values()),
+            io.in(roomCode).emit("player-rejoined", {
+              playerId,
+              playerName: player.name,
+              players: getPublicPlayers(room),
             });
 
             callback({
               success: true,
-              newPlayerId: socket.id,
+              playerId,
               room: {
                 code: room.code,
                 hostId: room.hostId,
-                players: Array.from(room.players.values()),
-                gameState: room.gameState,
+                players: getPublicPlayers(room),
+                gameState: getPublicGameState(room),
               },
+              privateData: getPrivatePlayerData(room, playerId),
             });
           } else {
-            // Player not found, can't rejoin
+            // Player was removed from the room, can't rejoin
             callback({
               success: false,
               error: "Player not found in room",
             });
           }
-        } catch (error) {
-          console.error("Error rejoining room:", error);
-          callback({
-            success: false,
-            error: "Failed to rejoin room",
-          });
-        }
-      },
-    );
-
-    // Leave room
-    socket.on(
-      "leave-room",
-      (
-        data: unknown,
-        callback: (response: { success: boolean; error?: string }) => void,
-      ) => {
-        console.log("leave-room event received", { socketId: socket.id, data });
+        });
+      } catch (error) {
+        console.error("Error rejoining room:", error);
+        callback({
+          success: false,
+          error: "Failed to rejoin room",
+        });
+      }
+    });
 
-        // Handle case where callback might be in first parameter
-        const actualCallback = typeof data === "function" ? data : callback;
+    // Public rooms strangers can join, as served at /api/rooms
+    socket.on("list-public-rooms", callback => {
+      try {
+        callback({ success: true, rooms: roomManager.listPublicRooms() });
+      } catch (error) {
+        console.error("Error listing public rooms:", error);
+        callback({ success: false, error: "Failed to list rooms" });
+      }
+    });
 
-        if (typeof actualCallback !== "function") {
-          console.error("leave-room: No valid callback provided");
+    // Quick match: wait to be put in a room, see matchQueuedPlayer
+    socket.on("join-queue", (data, callback) => {
+      try {
+        const { roomCode, playerId } = socket.data;
+        if (
+          roomCode &&
+          playerId &&
+          roomManager.getRoom(roomCode)?.players.has(playerId)
+        ) {
+          callback({ success: false, error: "Already in a room" });
           return;
         }
 
-        try {
-          const extSocket = socket as unknown as ExtendedSocket;
-          const roomCode = extSocket.roomCode;
-          const playerId = extSocket.playerId;
+        const entry: QueueEntry = {
+          socketId: socket.id,
+          playerName: data.playerName,
+          language: data.language,
+          preferredPlayers: data.preferredPlayers,
+          queuedAt: Date.now(),
+        };
+        matchmaking.add(entry);
+        callback({
+          success: true,
+          waiting: matchmaking.getWaiting(
+            entry.language,
+            entry.preferredPlayers,
+          ).length,
+        });
+
+        // After the reply, so the client knows it is queued before it matches
+        matchWaitingPlayers();
+      } catch (error) {
+        console.error("Error joining queue:", error);
+        callback({ success: false, error: "Failed to join the queue" });
+      }
+    });
+
+    socket.on("leave-queue", callback => {
+      matchmaking.remove(socket.id);
+      callback({ success: true });
+    });
+
+    // Leave room
+    socket.on("leave-room", (_data, callback) => {
+      console.log("leave-room event received", { socketId: socket.id });
+
+      try {
+        const { roomCode, playerId } = socket.data;
+
+        console.log("leave-room details:", {
+          roomCode,
+          playerId,
+          socketId: socket.id,
+        });
 
-          console.log("leave-room details:", {
+        if (!roomCode || !playerId) {
+          console.log("leave-room failed: Not in a room", {
             roomCode,
             playerId,
-            socketId: socket.id,
           });
+          callback({ success: false, error: "Not in a room" });
+          return;
+        }
 
-          if (!roomCode || !playerId) {
-            console.log("leave-room failed: Not in a room", {
-              roomCode,
-              playerId,
-            });
-            actualCallback({ success: false, error: "Not in a room" });
-            return;
-          }
-
+        roomManager.withRoomLock(roomCode, () => {
           const room = roomManager.getRoom(roomCode);
           if (!room) {
-            actualCallback({ success: false, error: "Room not found" });
+            callback({ success: false, error: "Room not found" });
             return;
           }
 
@@ -274,85 +824,67 @@ export function initializeSocketServer(server: HTTPServer) {
               message: "Host left the room",
             });
 
-            // Get all sockets in the room and make them leave
-            const socketsInRoom = io.sockets.adapter.rooms.get(roomCode);
-            if (socketsInRoom) {
-              socketsInRoom.forEach(socketId => {
-                const clientSocket = io.sockets.sockets.get(socketId);
-                if (clientSocket) {
-                  clientSocket.leave(roomCode);
-                  const extClientSocket =
-                    clientSocket as unknown as ExtendedSocket;
-                  extClientSocket.roomCode = undefined;
-                  extClientSocket.playerId = undefined;
-                }
-              });
-            }
+            // Make all sockets leave, including those on other server processes
+            io.in(roomCode).socketsLeave(roomCode);
 
             // Delete the room
             roomManager.deleteRoom(roomCode);
           } else {
             // Regular player leaving, just remove them from the room
             roomManager.leaveRoom(roomCode, playerId);
+            chatLimiter.forget(playerId);
 
             const updatedRoom = roomManager.getRoom(roomCode);
             if (updatedRoom) {
               io.to(roomCode).emit("player-left", {
                 playerId,
-                players: Array.from(updatedRoom.players.values()),
+                players: getPublicPlayers(updatedRoom),
               });
             }
 
             socket.leave(roomCode);
           }
 
-          extSocket.roomCode = undefined;
-          extSocket.playerId = undefined;
+          socket.data.roomCode = undefined;
+          socket.data.playerId = undefined;
 
           console.log("leave-room success", {
             playerId,
             roomCode,
             wasHost: isHost,
           });
-          actualCallback({ success: true });
-        } catch (error) {
-          console.error("Error leaving room:", error);
-          actualCallback({ success: false, error: "Failed to leave room" });
-        }
-      },
-    );
+          callback({ success: true });
+        });
+        matchWaitingPlayers();
+      } catch (error) {
+        console.error("Error leaving room:", error);
+        callback({ success: false, error: "Failed to leave room" });
+      }
+    });
 
     // Close room (host only - closes room for all players)
-    socket.on(
-      "close-room",
-      (callback: (response: { success: boolean; error?: string }) => void) => {
-        console.log("close-room event received", { socketId: socket.id });
+    socket.on("close-room", callback => {
+      console.log("close-room event received", { socketId: socket.id });
 
-        if (typeof callback !== "function") {
-          console.error("close-room: No valid callback provided");
-          return;
-        }
+      try {
+        const { roomCode, playerId } = socket.data;
 
-        try {
-          const extSocket = socket as unknown as ExtendedSocket;
-          const roomCode = extSocket.roomCode;
-          const playerId = extSocket.playerId;
+        console.log("close-room details:", {
+          roomCode,
+          playerId,
+          socketId: socket.id,
+        });
 
-          console.log("close-room details:", {
+        if (!roomCode || !playerId) {
+          console.log("close-room failed: Not in a room", {
             roomCode,
             playerId,
-            socketId: socket.id,
           });
+          callback({ success: false, error: "Not in a room" });
+          return;
+        }
 
-          if (!roomCode || !playerId) {
-            console.log("close-room failed: Not in a room", {
-              roomCode,
-              playerId,
-            });
-            callback({ success: false, error: "Not in a room" });
-            return;
-          }
-
+        roomManager.withRoomLock(roomCode, () => {
           const room = roomManager.getRoom(roomCode);
           if (!room) {
             console.log("close-room failed: Room not found");
@@ -366,7 +898,10 @@ export function initializeSocketServer(server: HTTPServer) {
               hostId: room.hostId,
               playerId,
             });
-            callback({ success: false, error: "Only host can close the room" });
+            callback({
+              success: false,
+              error: "Only host can close the room",
+            });
             return;
           }
 
@@ -375,20 +910,8 @@ export function initializeSocketServer(server: HTTPServer) {
             message: "Host closed the room",
           });
 
-          // Get all sockets in the room and make them leave
-          const socketsInRoom = io.sockets.adapter.rooms.get(roomCode);
-          if (socketsInRoom) {
-            socketsInRoom.forEach(socketId => {
-              const clientSocket = io.sockets.sockets.get(socketId);
-              if (clientSocket) {
-                clientSocket.leave(roomCode);
-                const extClientSocket =
-                  clientSocket as unknown as ExtendedSocket;
-                extClientSocket.roomCode = undefined;
-                extClientSocket.playerId = undefined;
-              }
-            });
-          }
+          // Make all sockets leave, including those on other server processes
+          io.in(roomCode).socketsLeave(roomCode);
 
           // Delete the room
           roomManager.deleteRoom(roomCode);
@@ -398,124 +921,415 @@ export function initializeSocketServer(server: HTTPServer) {
             hostId: playerId,
           });
           callback({ success: true });
+        });
+      } catch (error) {
+        console.error("Error closing room:", error);
+        callback({ success: false, error: "Failed to close room" });
+      }
+    });
+
+    // Remove a player from the lobby (host only); banned players can't return
+    const removePlayer =
+      (ban: boolean) => (data: PlayerTargetData, callback: SocketCallback) => {
+        try {
+          const { roomCode } = socket.data;
+
+          if (!roomCode) {
+            callback({ success: false, error: "Not in a room" });
+            return;
+          }
+
+          roomManager.withRoomLock(roomCode, () => {
+            const room = roomManager.getRoom(roomCode);
+            if (!room) {
+              callback({ success: false, error: "Room not found" });
+              return;
+            }
+
+            if (room.hostId !== socket.data.playerId) {
+              callback({
+                success: false,
+                error: "Only host can remove players",
+              });
+              return;
+            }
+
+            if (room.gameState.gameStarted) {
+              callback({
+                success: false,
+                error: "Players can only be removed between rounds",
+              });
+              return;
+            }
+
+            const player = roomManager.kickPlayer(roomCode, data.playerId, ban);
+            if (!player) {
+              callback({ success: false, error: "Player not found" });
+              return;
+            }
+            chatLimiter.forget(player.id);
+
+            // The removed player hears it too, then stops getting updates
+            io.in(roomCode).emit("player-kicked", {
+              playerId: player.id,
+              playerName: player.name,
+              banned: ban,
+              players: getPublicPlayers(room),
+            });
+            io.in(roomCode)
+              .fetchSockets()
+              .then(sockets =>
+                sockets
+                  .filter(s => s.data.playerId === player.id)
+                  .forEach(s => {
+                    s.leave(roomCode);
+                    // Sockets on other servers are stopped by the membership
+                    // checks instead
+                    const local = io.sockets.sockets.get(s.id);
+                    if (local) local.data = {};
+                  }),
+              )
+              .catch(error => {
+                console.error("Error removing kicked sockets:", {
+                  roomCode,
+                  error,
+                });
+              });
+
+            callback({ success: true });
+          });
+          matchWaitingPlayers();
         } catch (error) {
-          console.error("Error closing room:", error);
-          callback({ success: false, error: "Failed to close room" });
+          console.error("Error removing player:", error);
+          callback({ success: false, error: "Failed to remove player" });
         }
-      },
-    );
+      };
+    socket.on("kick-player", removePlayer(false));
+    socket.on("ban-player", removePlayer(true));
 
-    // Start game (host only)
-    socket.on("start-game", (gameState: GameState, callback) => {
+    // Hand the host role to another player (host only)
+    socket.on("transfer-host", (data, callback) => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
+        const { roomCode } = socket.data;
 
         if (!roomCode) {
           callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        const room = roomManager.getRoom(roomCode);
-        if (!room) {
-          callback({ success: false, error: "Room not found" });
-          return;
-        }
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        if (room.hostId !== socket.id) {
-          callback({ success: false, error: "Only host can start game" });
-          return;
-        }
+          if (room.hostId !== socket.data.playerId) {
+            callback({ success: false, error: "Only host can transfer host" });
+            return;
+          }
 
-        console.log("Starting game:", {
-          roomCode,
-          hostId: room.hostId,
-          playersCount: room.players.size,
-          impostorCount: gameState.impostorCount || 1,
-        });
+          // Host controls live in the lobby, so the round's host stays put
+          if (room.gameState.gameStarted) {
+            callback({
+              success: false,
+              error: "Host can only change between rounds",
+            });
+            return;
+          }
 
-        // Get current players from room (with updated IDs after reconnections)
-        const currentPlayers = Array.from(room.players.values());
+          const target = room.players.get(data.playerId);
+          if (!target || target.id === room.hostId || !target.isConnected) {
+            callback({ success: false, error: "Player not found" });
+            return;
+          }
 
-        // Assign roles: randomly select impostors
-        const impostorCount = Math.min(
-          gameState.impostorCount || 1,
-          currentPlayers.length - 1,
-        );
+          const newHost = roomManager.transferHost(roomCode, target.id);
+          if (!newHost) {
+            callback({ success: false, error: "Failed to transfer host" });
+            return;
+          }
+
+          io.in(roomCode).emit("host-changed", {
+            newHostId: newHost.id,
+            newHostName: newHost.name,
+            gameState: {
+              ...getPublicGameState(room),
+              players: getPublicPlayers(room),
+            },
+          });
+          callback({ success: true });
+        });
+      } catch (error) {
+        console.error("Error transferring host:", error);
+        callback({ success: false, error: "Failed to transfer host" });
+      }
+    });
 
-        const shuffledIndexes = Array.from(
-          { length: currentPlayers.length },
-          (_, i) => i,
-        ).sort(() => Math.random() - 0.5);
+    // Stop or allow new players joining (host only)
+    socket.on("lock-room", (data, callback) => {
+      try {
+        const { roomCode } = socket.data;
 
-        // Assign impostor role to random players
-        for (let i = 0; i < impostorCount; i++) {
-          currentPlayers[shuffledIndexes[i]].role = "impostor";
+        if (!roomCode) {
+          callback({ success: false, error: "Not in a room" });
+          return;
         }
 
-        // Reset revealed status for all players
-        currentPlayers.forEach(p => {
-          p.hasRevealed = false;
-        });
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          if (room.hostId !== socket.data.playerId) {
+            callback({ success: false, error: "Only host can lock the room" });
+            return;
+          }
 
-        console.log("Players with assigned roles:", {
-          players: currentPlayers.map(p => ({
-            id: p.id,
-            name: p.name,
-            role: p.role,
-          })),
+          const { locked } = data;
+          roomManager.setRoomLocked(roomCode, locked);
+          io.in(roomCode).emit("room-lock-changed", { locked });
+          callback({ success: true });
         });
+        if (!data.locked) matchWaitingPlayers();
+      } catch (error) {
+        console.error("Error locking room:", error);
+        callback({ success: false, error: "Failed to lock room" });
+      }
+    });
+
+    // Lobby settings (host only), shown to everyone before the round starts
+    socket.on("update-room-settings", (settings, callback) => {
+      try {
+        const { roomCode } = socket.data;
 
-        // Update both room.players Map and gameState.players array
-        currentPlayers.forEach(p => {
-          const mapPlayer = room.players.get(p.id);
-          if (mapPlayer) {
-            mapPlayer.role = p.role;
-            mapPlayer.hasRevealed = false;
+        if (!roomCode) {
+          callback({ success: false, error: "Not in a room" });
+          return;
+        }
+
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          if (room.hostId !== socket.data.playerId) {
+            callback({
+              success: false,
+              error: "Only host can change the settings",
+            });
+            return;
           }
-        });
 
-        // Update game state with players having correct IDs
-        const updatedRoom = roomManager.updateGameState(roomCode, {
-          ...gameState,
-          gameStarted: true,
-          phase: "wordreveal",
-          players: currentPlayers,
-          currentRevealIndex: 0,
-          votes: [], // Reset votes
-          votingResults: undefined, // Clear voting results
-          winners: undefined, // Clear winners
+          if (room.gameState.gameStarted) {
+            callback({
+              success: false,
+              error: "Settings can't change during a round",
+            });
+            return;
+          }
+
+          if (settings.maxPlayers < room.players.size) {
+            callback({
+              success: false,
+              error: `There are already ${room.players.size} players in the room`,
+            });
+            return;
+          }
+
+          roomManager.updateGameState(roomCode, settings);
+          socket.to(roomCode).emit("room-settings-updated", { settings });
+          callback({ success: true });
         });
+        matchWaitingPlayers();
+      } catch (error) {
+        console.error("Error updating room settings:", error);
+        callback({ success: false, error: "Failed to update settings" });
+      }
+    });
 
-        if (!updatedRoom) {
-          callback({ success: false, error: "Failed to update game state" });
+    // Start game (host only)
+    socket.on("start-game", async (config, callback) => {
+      const roomCode = socket.data.roomCode;
+
+      if (!roomCode) {
+        callback({ success: false, error: "Not in a room" });
+        return;
+      }
+
+      if (roomsStartingRound.has(roomCode)) {
+        callback({ success: false, error: "Game is already starting" });
+        return;
+      }
+
+      roomsStartingRound.add(roomCode);
+      try {
+        const room = roomManager.getRoom(roomCode);
+        if (!room) {
+          callback({ success: false, error: "Room not found" });
           return;
         }
 
-        console.log("Game started successfully:", {
-          roomCode,
-          phase: updatedRoom.gameState.phase,
-          playersCount: updatedRoom.gameState.players?.length,
-        });
+        if (room.hostId !== socket.data.playerId) {
+          callback({ success: false, error: "Only host can start game" });
+          return;
+        }
 
-        // Notify all players including the host
-        io.in(roomCode).emit("game-started", {
-          gameState: updatedRoom.gameState,
-        });
+        // Spectators keep watching, so only the others are dealt in
+        const startError = getStartError(
+          Array.from(room.players.values()).filter(p => !p.isSpectator).length,
+          config,
+        );
+        if (startError) {
+          callback({ success: false, error: startError });
+          return;
+        }
 
-        callback({ success: true });
+        // A match plays its categories in turn, one per round
+        let categories = config.selectedCategories;
+        if (config.matchRounds > 1) {
+          roomManager.startMatch(roomCode, config.matchRounds, categories);
+          const category = roomManager.nextMatchRound(roomCode);
+          if (category) categories = [category];
+        } else {
+          roomManager.endMatch(roomCode);
+        }
+
+        const selectedWord = await (
+          config.undercover ? selectWordPair : selectWord
+        )(categories, config.language, config.difficulty, `room:${roomCode}`);
+
+        roomManager.withRoomLock(roomCode, () => {
+          // The room may have been closed while the word was being generated
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          console.log("Starting game:", {
+            roomCode,
+            hostId: room.hostId,
+            playersCount: room.players.size,
+            impostorCount: config.impostorCount,
+            category: selectedWord.category,
+          });
+
+          // Get current players from room (with updated IDs after reconnections)
+          const currentPlayers = Array.from(room.players.values());
+          // Players may have left while the word was being generated
+          const startError = getStartError(
+            currentPlayers.filter(p => !p.isSpectator).length,
+            config,
+          );
+          if (startError) {
+            callback({ success: false, error: startError });
+            return;
+          }
+          // Spectators keep watching until the next restart
+          const participants = assignRoles(
+            currentPlayers.filter(p => !p.isSpectator),
+            {
+              impostorCount: config.impostorCount,
+              specialRoles: config.specialRoles,
+              recentImpostorIds: room.recentImpostorIds,
+            },
+          );
+          const impostorCount = participants.filter(
+            p => p.role === "impostor",
+          ).length;
+          room.recentImpostorIds = recordImpostors(
+            room.recentImpostorIds,
+            participants,
+          );
+
+          // Last round's roles don't carry over, and spectators get none
+          currentPlayers.forEach(p => {
+            const assigned = participants.find(a => a.id === p.id);
+            p.role = assigned?.role ?? "player";
+            p.specialRole = assigned?.specialRole;
+            p.hasRevealed = false;
+            p.isAlive = true;
+          });
+
+          console.log("Players with assigned roles:", {
+            players: currentPlayers.map(p => ({
+              id: p.id,
+              name: p.name,
+              role: p.role,
+              specialRole: p.specialRole,
+            })),
+          });
+
+          // Update both room.players Map and gameState.players array
+          currentPlayers.forEach(p => {
+            const mapPlayer = room.players.get(p.id);
+            if (mapPlayer) {
+              mapPlayer.role = p.role;
+              mapPlayer.specialRole = p.specialRole;
+              mapPlayer.hasRevealed = false;
+              mapPlayer.isAlive = true;
+            }
+          });
+
+          // Update game state with players having correct IDs
+          timers.stop(roomCode);
+          // The impostors are new, so is their channel
+          roomManager.clearChatChannel(roomCode, "impostors");
+          const updatedRoom = roomManager.updateGameState(roomCode, {
+            ...config,
+            impostorCount,
+            currentWord: selectedWord.word,
+            currentHints: selectedWord.hints,
+            decoyWord: selectedWord.decoy,
+            currentCategory: selectedWord.category,
+            gameStarted: true,
+            phase: "wordreveal",
+            players: currentPlayers,
+            currentRevealIndex: 0,
+            votes: [], // Reset votes
+            votingResults: undefined, // Clear voting results
+            winners: undefined, // Clear winners
+            caughtImpostorIds: undefined,
+            impostorGuesses: undefined,
+            ejections: undefined,
+            voteRound: 1,
+            clues: undefined,
+            investigations: undefined,
+          });
+
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to update game state" });
+            return;
+          }
+
+          console.log("Game started successfully:", {
+            roomCode,
+            phase: updatedRoom.gameState.phase,
+            playersCount: updatedRoom.gameState.players?.length,
+          });
+
+          // Notify all players including the host
+          emitGameState(io, updatedRoom, "game-started");
+
+          callback({ success: true });
+        });
       } catch (error) {
         console.error("Error starting game:", error);
         callback({ success: false, error: "Failed to start game" });
+      } finally {
+        roomsStartingRound.delete(roomCode);
       }
     });
 
     // Player revealed their card
     socket.on("player-revealed", callback => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
-        const playerId = extSocket.playerId;
+        const { roomCode, playerId } = socket.data;
 
         if (!roomCode || !playerId) {
           callback({ success: false, error: "Not in a room" });
@@ -531,7 +1345,7 @@ export function initializeSocketServer(server: HTTPServer) {
         // Notify all players about the reveal, including the player who revealed
         io.in(roomCode).emit("player-revealed-update", {
           playerId,
-          players: Array.from(room.players.values()),
+          players: getPublicPlayers(room),
         });
 
         callback({ success: true });
@@ -542,161 +1356,422 @@ export function initializeSocketServer(server: HTTPServer) {
     });
 
     // Change phase (host only)
-    socket.on("change-phase", (phase: GameState["phase"], callback) => {
+    socket.on("change-phase", (phase, callback) => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
+        const { roomCode } = socket.data;
 
         if (!roomCode) {
           callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        const room = roomManager.getRoom(roomCode);
-        if (!room) {
-          callback({ success: false, error: "Room not found" });
-          return;
-        }
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        if (room.hostId !== socket.id) {
-          callback({ success: false, error: "Only host can change phase" });
-          return;
-        }
+          if (room.hostId !== socket.data.playerId) {
+            callback({ success: false, error: "Only host can change phase" });
+            return;
+          }
+
+          const phaseError = getHostPhaseChangeError(room.gameState, phase);
+          if (phaseError) {
+            callback({ success: false, error: phaseError });
+            return;
+          }
 
-        // Prepare the update
-        const update: Partial<GameState> = { phase };
+          const updatedRoom = changePhase(roomCode, phase);
 
-        // If changing to discussion phase, select a random starting player
-        if (phase === "discussion") {
-          const players = Array.from(room.players.values());
-          const startPlayerIndex = Math.floor(Math.random() * players.length);
-          update.startingPlayerId = players[startPlayerIndex].id;
-        }
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to update phase" });
+            return;
+          }
+
+          callback({ success: true });
+        });
+      } catch (error) {
+        console.error("Error changing phase:", error);
+        callback({ success: false, error: "Failed to change phase" });
+      }
+    });
 
-        const updatedRoom = roomManager.updateGameState(roomCode, update);
+    // Pause, resume, extend or skip the current phase's timer (host only)
+    socket.on("timer-control", (data, callback) => {
+      try {
+        const { roomCode, playerId } = socket.data;
 
-        if (!updatedRoom) {
-          callback({ success: false, error: "Failed to update phase" });
+        if (!roomCode) {
+          callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        // Notify all players including the host
-        io.in(roomCode).emit("phase-changed", {
-          phase,
-          gameState: updatedRoom.gameState,
-        });
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        callback({ success: true });
+          if (room.hostId !== playerId) {
+            callback({
+              success: false,
+              error: "Only host can control the timer",
+            });
+            return;
+          }
+
+          const { timer, phase } = room.gameState;
+          if (!timer || timer.phase !== phase) {
+            callback({ success: false, error: "No timer running" });
+            return;
+          }
+
+          if (data.action === "skip") {
+            // Same as running out of time
+            if (phase === "clues") advanceClueTurn(roomCode);
+            if (phase === "discussion") changePhase(roomCode, "voting");
+            if (phase === "voting") revealVotingResults(roomCode);
+            if (phase === "impostorguess") finishRound(roomCode);
+            if (phase === "standings") returnToLobby(roomCode);
+            callback({ success: true });
+            return;
+          }
+
+          let updatedTimer;
+          if (data.action === "pause") {
+            updatedTimer = timers.pause(roomCode);
+          } else if (data.action === "resume") {
+            updatedTimer = timers.resume(roomCode);
+          } else if (data.action === "extend") {
+            const seconds = data.seconds
+              ? Math.min(data.seconds, MAX_TIMER_EXTENSION_SECONDS)
+              : DEFAULT_TIMER_EXTENSION_SECONDS;
+            updatedTimer = timers.extend(roomCode, seconds * 1000);
+          } else {
+            callback({ success: false, error: "Invalid timer action" });
+            return;
+          }
+
+          io.in(roomCode).emit("timer-updated", {
+            timer: getPublicTimer(updatedTimer),
+          });
+
+          callback({ success: true });
+        });
       } catch (error) {
-        console.error("Error changing phase:", error);
-        callback({ success: false, error: "Failed to change phase" });
+        console.error("Error controlling timer:", error);
+        callback({ success: false, error: "Failed to update timer" });
       }
     });
 
     // Submit vote
-    socket.on("submit-vote", (data: { votedForId: string }, callback) => {
+    socket.on("submit-vote", (data, callback) => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
-        const playerId = extSocket.playerId;
+        const { roomCode, playerId } = socket.data;
 
         if (!roomCode || !playerId) {
           callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        const room = roomManager.getRoom(roomCode);
-        if (!room) {
-          callback({ success: false, error: "Room not found" });
-          return;
-        }
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        if (room.gameState.phase !== "voting") {
-          callback({ success: false, error: "Not in voting phase" });
-          return;
-        }
+          if (room.gameState.phase !== "voting") {
+            callback({ success: false, error: "Not in voting phase" });
+            return;
+          }
 
-        // Submit the vote
-        const updatedRoom = roomManager.submitVote(
-          roomCode,
-          playerId,
-          data.votedForId,
-        );
+          // Spectators and ejected players can neither vote nor be voted for
+          const alivePlayers = room.gameState.players.filter(isPlaying);
+          if (!alivePlayers.some(p => p.id === playerId)) {
+            callback({ success: false, error: "You are only watching" });
+            return;
+          }
+          if (!alivePlayers.some(p => p.id === data.votedForId)) {
+            callback({ success: false, error: "Invalid vote" });
+            return;
+          }
 
-        if (!updatedRoom) {
-          callback({ success: false, error: "Failed to submit vote" });
-          return;
-        }
+          // Submit the vote
+          const updatedRoom = roomManager.submitVote(
+            roomCode,
+            playerId,
+            data.votedForId,
+          );
 
-        // Notify all players about the vote update (without revealing who voted for whom)
-        const voteCount = (updatedRoom.gameState.votes || []).length;
-        const totalPlayers = updatedRoom.players.size;
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to submit vote" });
+            return;
+          }
 
-        io.in(roomCode).emit("vote-submitted", {
-          voteCount,
-          totalPlayers,
-        });
+          // Notify all players about the vote update (without revealing who voted for whom)
+          const voteCount = (updatedRoom.gameState.votes || []).length;
+          const totalPlayers = alivePlayers.length;
+          const { timer } = updatedRoom.gameState;
+
+          io.in(roomCode).emit("vote-submitted", {
+            voteCount,
+            totalPlayers,
+            // Lets clients resync their countdown
+            remainingMs:
+              timer?.phase === "voting" ? getRemainingMs(timer) : undefined,
+          });
 
-        callback({ success: true });
+          callback({ success: true });
+        });
       } catch (error) {
         console.error("Error submitting vote:", error);
         callback({ success: false, error: "Failed to submit vote" });
       }
     });
 
-    // Calculate voting results (host only)
-    socket.on("calculate-votes", callback => {
+    // A detective's private check of another player, once per vote
+    socket.on("investigate-player", (data, callback) => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
+        const { roomCode, playerId } = socket.data;
 
-        if (!roomCode) {
+        if (!roomCode || !playerId) {
           callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        const room = roomManager.getRoom(roomCode);
-        if (!room) {
-          callback({ success: false, error: "Room not found" });
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          const { gameState } = room;
+          const detective = gameState.players.find(p => p.id === playerId);
+          if (
+            !gameState.gameStarted ||
+            !detective ||
+            !isPlaying(detective) ||
+            !getRoleDefinition(detective)?.canInvestigate
+          ) {
+            callback({ success: false, error: "You can't investigate" });
+            return;
+          }
+
+          if (
+            !["wordreveal", "clues", "discussion"].includes(gameState.phase)
+          ) {
+            callback({ success: false, error: "Too late to investigate" });
+            return;
+          }
+
+          const voteRound = gameState.voteRound || 1;
+          if (
+            (gameState.investigations || []).some(
+              i => i.detectiveId === playerId && i.voteRound === voteRound,
+            )
+          ) {
+            callback({ success: false, error: "Already investigated" });
+            return;
+          }
+
+          const target = gameState.players.find(p => p.id === data.playerId);
+          if (!target || target.id === playerId || !isPlaying(target)) {
+            callback({ success: false, error: "Invalid player" });
+            return;
+          }
+
+          const investigation = roomManager.addInvestigation(
+            roomCode,
+            playerId,
+            target.id,
+          );
+          if (!investigation) {
+            callback({ success: false, error: "Failed to investigate" });
+            return;
+          }
+
+          callback({ success: true, investigation });
+        });
+      } catch (error) {
+        console.error("Error investigating player:", error);
+        callback({ success: false, error: "Failed to investigate" });
+      }
+    });
+
+    // One-word clue from the player whose turn it is in the clue round
+    socket.on("submit-clue", (data, callback) => {
+      try {
+        const { roomCode, playerId } = socket.data;
+
+        if (!roomCode || !playerId) {
+          callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        if (room.hostId !== socket.id) {
-          callback({ success: false, error: "Only host can calculate votes" });
+        const clue = data.clue.trim();
+        if (!clue || clue.length > MAX_CLUE_LENGTH || /\s/.test(clue)) {
+          callback({ success: false, error: "A clue must be a single word" });
           return;
         }
 
-        // Calculate voting results and update wins
-        const updatedRoom = roomManager.calculateVotingResults(roomCode);
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          const {
+            phase,
+            clueTurnOrder = [],
+            clueTurnIndex = 0,
+          } = room.gameState;
+          if (phase !== "clues") {
+            callback({ success: false, error: "Not in clue phase" });
+            return;
+          }
+
+          if (clueTurnOrder[clueTurnIndex] !== playerId) {
+            callback({ success: false, error: "It's not your turn" });
+            return;
+          }
+
+          // Only the word the player was given: turning down a clue for
+          // the real word would tell an impostor what it is
+          const ownWord = getPrivatePlayerData(room, playerId)?.word;
+          if (ownWord && containsWord(clue, ownWord)) {
+            callback({
+              success: false,
+              error: "Your clue can't contain the secret word",
+            });
+            return;
+          }
+
+          advanceClueTurn(roomCode, clue);
+          callback({ success: true });
+        });
+      } catch (error) {
+        console.error("Error submitting clue:", error);
+        callback({ success: false, error: "Failed to submit clue" });
+      }
+    });
+
+    // Caught impostor's last-chance guess at the secret word
+    socket.on("submit-impostor-guess", (data, callback) => {
+      try {
+        const { roomCode, playerId } = socket.data;
 
-        if (!updatedRoom) {
-          callback({ success: false, error: "Failed to calculate votes" });
+        if (!roomCode || !playerId) {
+          callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        // Change phase to results
-        roomManager.updateGameState(roomCode, {
-          phase: "results",
-        });
+        const guess = data.guess.trim();
+        if (!guess || guess.length > MAX_GUESS_LENGTH) {
+          callback({ success: false, error: "Invalid guess" });
+          return;
+        }
 
-        // Notify all players including the host
-        io.in(roomCode).emit("voting-results", {
-          votingResults: updatedRoom.gameState.votingResults,
-          winners: updatedRoom.gameState.winners,
-          players: Array.from(updatedRoom.players.values()),
-          impostors: updatedRoom.gameState.players.filter(
-            p => p.role === "impostor",
-          ),
-          word: updatedRoom.gameState.currentWord,
-        });
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          const { phase, caughtImpostorIds = [] } = room.gameState;
+          if (phase !== "impostorguess") {
+            callback({ success: false, error: "Not in impostor guess phase" });
+            return;
+          }
 
-        // Also emit phase change
-        io.in(roomCode).emit("phase-changed", {
-          phase: "results",
-          gameState: updatedRoom.gameState,
+          if (!caughtImpostorIds.includes(playerId)) {
+            callback({
+              success: false,
+              error: "Only caught impostors can guess",
+            });
+            return;
+          }
+
+          if (
+            room.gameState.impostorGuesses?.some(g => g.playerId === playerId)
+          ) {
+            callback({ success: false, error: "Already guessed" });
+            return;
+          }
+
+          const updatedRoom = roomManager.submitImpostorGuess(
+            roomCode,
+            playerId,
+            guess,
+          );
+
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to submit guess" });
+            return;
+          }
+
+          const impostorGuesses = updatedRoom.gameState.impostorGuesses || [];
+          io.in(roomCode).emit("impostor-guess-submitted", { impostorGuesses });
+
+          // A correct guess decides the round; otherwise wait for the others
+          const allGuessed = caughtImpostorIds.every(id =>
+            impostorGuesses.some(g => g.playerId === id),
+          );
+          if (impostorGuesses.some(g => g.correct) || allGuessed) {
+            finishRound(roomCode);
+          }
+
+          callback({ success: true });
         });
+      } catch (error) {
+        console.error("Error submitting impostor guess:", error);
+        callback({ success: false, error: "Failed to submit guess" });
+      }
+    });
 
-        callback({ success: true });
+    // Calculate voting results (host only)
+    socket.on("calculate-votes", callback => {
+      try {
+        const { roomCode } = socket.data;
+
+        if (!roomCode) {
+          callback({ success: false, error: "Not in a room" });
+          return;
+        }
+
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          if (room.hostId !== socket.data.playerId) {
+            callback({
+              success: false,
+              error: "Only host can calculate votes",
+            });
+            return;
+          }
+
+          if (room.gameState.phase !== "voting") {
+            callback({ success: false, error: "Not in voting phase" });
+            return;
+          }
+
+          if (!revealVotingResults(roomCode)) {
+            callback({ success: false, error: "Failed to calculate votes" });
+            return;
+          }
+
+          callback({ success: true });
+        });
       } catch (error) {
         console.error("Error calculating votes:", error);
         callback({ success: false, error: "Failed to calculate votes" });
@@ -706,48 +1781,55 @@ export function initializeSocketServer(server: HTTPServer) {
     // Reveal impostor (host only)
     socket.on("reveal-impostor", callback => {
       try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
+        const { roomCode } = socket.data;
 
         if (!roomCode) {
           callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        const room = roomManager.getRoom(roomCode);
-        if (!room) {
-          callback({ success: false, error: "Room not found" });
-          return;
-        }
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        if (room.hostId !== socket.id) {
-          callback({ success: false, error: "Only host can reveal impostor" });
-          return;
-        }
+          if (room.hostId !== socket.data.playerId) {
+            callback({
+              success: false,
+              error: "Only host can reveal impostor",
+            });
+            return;
+          }
 
-        const impostors = room.gameState.players.filter(
-          p => p.role === "impostor",
-        );
+          // The round has to be played out and scored first
+          if (room.gameState.phase !== "results") {
+            callback({ success: false, error: "The round is not over yet" });
+            return;
+          }
 
-        // Notify all players including the host
-        io.in(roomCode).emit("impostor-revealed", {
-          impostors,
-          word: room.gameState.currentWord,
-        });
+          const impostors = room.gameState.players.filter(
+            p => p.role === "impostor",
+          );
 
-        // Change phase to results
-        const updatedRoom = roomManager.updateGameState(roomCode, {
-          phase: "results",
-        });
+          // Notify all players including the host
+          io.in(roomCode).emit("impostor-revealed", {
+            impostors,
+            word: room.gameState.currentWord,
+          });
 
-        if (updatedRoom) {
-          io.in(roomCode).emit("phase-changed", {
+          // Change phase to results
+          const updatedRoom = roomManager.updateGameState(roomCode, {
             phase: "results",
-            gameState: updatedRoom.gameState,
           });
-        }
 
-        callback({ success: true });
+          if (updatedRoom) {
+            emitGameState(io, updatedRoom, "phase-changed");
+          }
+
+          callback({ success: true });
+        });
       } catch (error) {
         console.error("Error revealing impostor:", error);
         callback({ success: false, error: "Failed to reveal impostor" });
@@ -755,100 +1837,270 @@ export function initializeSocketServer(server: HTTPServer) {
     });
 
     // Restart game (host only)
-    socket.on("restart-game", (config, callback) => {
-      try {
-        const extSocket = socket as unknown as ExtendedSocket;
-        const roomCode = extSocket.roomCode;
+    socket.on("restart-game", async (config, callback) => {
+      const roomCode = socket.data.roomCode;
 
-        if (!roomCode) {
-          callback({ success: false, error: "Not in a room" });
-          return;
-        }
+      if (!roomCode) {
+        callback({ success: false, error: "Not in a room" });
+        return;
+      }
 
+      if (roomsStartingRound.has(roomCode)) {
+        callback({ success: false, error: "Game is already starting" });
+        return;
+      }
+
+      roomsStartingRound.add(roomCode);
+      try {
         const room = roomManager.getRoom(roomCode);
         if (!room) {
           callback({ success: false, error: "Room not found" });
           return;
         }
 
-        if (room.hostId !== socket.id) {
+        if (room.hostId !== socket.data.playerId) {
           callback({ success: false, error: "Only host can restart game" });
           return;
         }
 
-        // Validate config
-        if (!config || typeof config !== "object") {
-          callback({ success: false, error: "Invalid game configuration" });
+        // Spectators join in, so everyone in the room counts
+        const startError = getStartError(room.players.size, config);
+        if (startError) {
+          callback({ success: false, error: startError });
           return;
         }
 
-        // Keep same players but reset their states and reassign roles
-        const players = Array.from(room.players.values()).map(p => ({
-          ...p,
-          role: "player" as "player" | "impostor",
-          hasRevealed: false,
-          // Keep wins - don't reset them
-        }));
+        // In a match, the next round uses the next category in turn
+        let categories = config.selectedCategories;
+        if (room.match) {
+          const category = roomManager.nextMatchRound(roomCode);
+          if (!category) {
+            callback({ success: false, error: "The match is over" });
+            return;
+          }
+          categories = [category];
+        }
 
-        // Randomly assign impostor roles
-        const impostorCount = config.impostorCount || 1; // Default to 1 if not provided
-        const shuffledIndexes = Array.from(
-          { length: players.length },
-          (_, i) => i,
-        ).sort(() => Math.random() - 0.5);
+        const selectedWord = await (
+          config.undercover ? selectWordPair : selectWord
+        )(categories, config.language, config.difficulty, `room:${roomCode}`);
 
-        for (let i = 0; i < impostorCount; i++) {
-          players[shuffledIndexes[i]].role = "impostor";
-        }
+        roomManager.withRoomLock(roomCode, () => {
+          // The room may have been closed while the word was being generated
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
 
-        // Update room.players Map with reset states
-        players.forEach(p => {
-          const mapPlayer = room.players.get(p.id);
-          if (mapPlayer) {
-            mapPlayer.role = p.role;
-            mapPlayer.hasRevealed = false;
+          const startError = getStartError(room.players.size, config);
+          if (startError) {
+            callback({ success: false, error: startError });
+            return;
+          }
+
+          // Keep same players but reset their states and reassign roles
+          const players = assignRoles(
+            Array.from(room.players.values()).map(p => ({
+              ...p,
+              hasRevealed: false,
+              isAlive: true,
+              isSpectator: false, // Spectators join in from here
+              // Keep wins and scores - don't reset them
+            })),
+            {
+              impostorCount: config.impostorCount,
+              specialRoles: config.specialRoles,
+              recentImpostorIds: room.recentImpostorIds,
+            },
+          );
+          const impostorCount = players.filter(
+            p => p.role === "impostor",
+          ).length;
+          room.recentImpostorIds = recordImpostors(
+            room.recentImpostorIds,
+            players,
+          );
+
+          // Update room.players Map with reset states
+          players.forEach(p => {
+            const mapPlayer = room.players.get(p.id);
+            if (mapPlayer) {
+              mapPlayer.role = p.role;
+              mapPlayer.specialRole = p.specialRole;
+              mapPlayer.hasRevealed = false;
+              mapPlayer.isAlive = true;
+              mapPlayer.isSpectator = false;
+            }
+          });
+
+          // Update game state
+          timers.stop(roomCode);
+          // The impostors are new, so is their channel
+          roomManager.clearChatChannel(roomCode, "impostors");
+          const updatedRoom = roomManager.updateGameState(roomCode, {
+            gameStarted: true,
+            phase: "wordreveal",
+            players,
+            ...config,
+            currentWord: selectedWord.word,
+            currentHints: selectedWord.hints,
+            decoyWord: selectedWord.decoy,
+            currentCategory: selectedWord.category,
+            impostorCount: impostorCount, // Use validated value
+            currentRevealIndex: 0,
+            votes: [], // Reset votes
+            votingResults: undefined, // Clear voting results
+            winners: undefined, // Clear winners
+            caughtImpostorIds: undefined,
+            impostorGuesses: undefined,
+            ejections: undefined,
+            voteRound: 1,
+            clues: undefined,
+            investigations: undefined,
+          });
+
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to restart game" });
+            return;
           }
-        });
 
-        // Update game state
-        const updatedRoom = roomManager.updateGameState(roomCode, {
-          gameStarted: true,
-          phase: "wordreveal",
-          players,
-          currentWord: config.currentWord,
-          currentHints: config.currentHints,
-          currentCategory: config.currentCategory,
-          selectedCategories: config.selectedCategories,
-          difficulty: config.difficulty,
-          showHintsToImpostors: config.showHintsToImpostors,
-          impostorCount: impostorCount, // Use validated value
-          currentRevealIndex: 0,
-          votes: [], // Reset votes
-          votingResults: undefined, // Clear voting results
-          winners: undefined, // Clear winners
+          // Notify all players
+          emitGameState(io, updatedRoom, "game-started");
+
+          callback({ success: true });
         });
+      } catch (error) {
+        console.error("Error restarting game:", error);
+        callback({ success: false, error: "Failed to restart game" });
+      } finally {
+        roomsStartingRound.delete(roomCode);
+      }
+    });
+
+    // Show the final standings once every round of the match is played (host only)
+    socket.on("show-standings", callback => {
+      try {
+        const { roomCode } = socket.data;
 
-        if (!updatedRoom) {
-          callback({ success: false, error: "Failed to restart game" });
+        if (!roomCode) {
+          callback({ success: false, error: "Not in a room" });
           return;
         }
 
-        // Notify all players
-        io.in(roomCode).emit("game-started", {
-          gameState: updatedRoom.gameState,
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          if (!room) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          if (room.hostId !== socket.data.playerId) {
+            callback({
+              success: false,
+              error: "Only host can show the standings",
+            });
+            return;
+          }
+
+          const { match } = room;
+          if (
+            room.gameState.phase !== "results" ||
+            !match ||
+            match.history.length < match.totalRounds
+          ) {
+            callback({ success: false, error: "The match is not over yet" });
+            return;
+          }
+
+          changePhase(roomCode, "standings");
+          callback({ success: true });
         });
+      } catch (error) {
+        console.error("Error showing standings:", error);
+        callback({ success: false, error: "Failed to show standings" });
+      }
+    });
 
-        callback({ success: true });
+    // Chat message to the whole room or the impostors' channel
+    socket.on("send-chat-message", (data, callback) => {
+      try {
+        const { roomCode, playerId } = socket.data;
+
+        if (!roomCode || !playerId) {
+          callback({ success: false, error: "Not in a room" });
+          return;
+        }
+
+        const text = data.text.trim();
+        if (!text || text.length > MAX_CHAT_MESSAGE_LENGTH) {
+          callback({ success: false, error: "Invalid message" });
+          return;
+        }
+        const channel = data.channel === "impostors" ? "impostors" : "room";
+
+        roomManager.withRoomLock(roomCode, () => {
+          const room = roomManager.getRoom(roomCode);
+          const player = room?.players.get(playerId);
+          if (!room || !player) {
+            callback({ success: false, error: "Room not found" });
+            return;
+          }
+
+          const error = getChatError(room.gameState, player, channel);
+          if (error) {
+            callback({ success: false, error });
+            return;
+          }
+
+          if (!chatLimiter.tryConsume(playerId)) {
+            callback({
+              success: false,
+              error: "You are sending messages too quickly",
+            });
+            return;
+          }
+
+          const message: ChatMessage = {
+            id: randomUUID(),
+            playerId,
+            playerName: player.name,
+            text: filterProfanity(text),
+            channel,
+            sentAt: Date.now(),
+          };
+          const updatedRoom = roomManager.addChatMessage(roomCode, message);
+          if (!updatedRoom) {
+            callback({ success: false, error: "Failed to send message" });
+            return;
+          }
+
+          emitChatMessage(io, updatedRoom, message);
+          callback({ success: true });
+        });
       } catch (error) {
-        console.error("Error restarting game:", error);
-        callback({ success: false, error: "Failed to restart game" });
+        console.error("Error sending chat message:", error);
+        callback({ success: false, error: "Failed to send message" });
+      }
+    });
+
+    // Chat history for a client that just (re)joined
+    socket.on("get-chat-history", callback => {
+      const { roomCode, playerId } = socket.data;
+      const room = roomCode ? roomManager.getRoom(roomCode) : undefined;
+
+      // Removed players may still have the room on their socket
+      if (!room || !playerId || !room.players.has(playerId)) {
+        callback({ success: false, error: "Not in a room" });
+        return;
       }
+
+      callback({ success: true, messages: getChatHistory(room, playerId) });
     });
 
     // Send notification
-    socket.on("send-notification", (notification: NotificationData) => {
-      const extSocket = socket as unknown as ExtendedSocket;
-      const roomCode = extSocket.roomCode;
+    socket.on("send-notification", notification => {
+      const { roomCode } = socket.data;
 
       if (!roomCode) return;
 
@@ -856,65 +2108,90 @@ export function initializeSocketServer(server: HTTPServer) {
     });
 
     // Disconnect
-    socket.on("disconnect", () => {
-      const extSocket = socket as unknown as ExtendedSocket;
-      const roomCode = extSocket.roomCode;
-      const playerId = extSocket.playerId;
+    socket.on("disconnect", async () => {
+      const { roomCode, playerId } = socket.data;
+      matchmaking.remove(socket.id);
 
       console.log("Player disconnected:", { roomCode, playerId });
 
       if (roomCode && playerId) {
-        const room = roomManager.getRoom(roomCode);
-
-        if (room) {
-          // Check if the disconnecting player is the host
-          const isHost = room.hostId === playerId;
-
-          if (isHost) {
-            // If host disconnects, close the room for everyone
-            console.log("Host disconnected, closing room for all players:", {
-              roomCode,
-              hostId: playerId,
-            });
-
-            // Emit room-closed to all other players
-            socket.to(roomCode).emit("room-closed", {
-              message: "Host disconnected",
-            });
-
-            // Delete the room
-            roomManager.deleteRoom(roomCode);
-          } else {
-            // Mark player as disconnected instead of removing them
-            const player = room.players.get(playerId);
-            if (player) {
-              player.isConnected = false;
-              console.log("Player marked as disconnected:", {
-                playerId,
-                playerName: player.name,
-                roomCode,
-                remainingPlayers: room.players.size,
-              });
-
-              // Notify others that player disconnected (but stay in room for rejoin)
-              io.to(roomCode).emit("player-disconnected", {
-                playerId,
-                playerName: player.name,
-                players: Array.from(room.players.values()),
-              });
+        try {
+          // The player may already be back on a new connection, e.g. when the
+          // old one only timed out after they reconnected
+          const sockets = await io.in(roomCode).fetchSockets();
+          if (sockets.some(s => s.data.playerId === playerId)) return;
+
+          roomManager.withRoomLock(roomCode, () => {
+            const room = roomManager.getRoom(roomCode);
+
+            if (room) {
+              // Check if the disconnecting player is the host
+              const isHost = room.hostId === playerId;
+
+              if (isHost) {
+                // If host disconnects, close the room for everyone
+                console.log(
+                  "Host disconnected, closing room for all players:",
+                  {
+                    roomCode,
+                    hostId: playerId,
+                  },
+                );
+
+                // Emit room-closed to all other players
+                socket.to(roomCode).emit("room-closed", {
+                  message: "Host disconnected",
+                });
+
+                // Delete the room
+                roomManager.deleteRoom(roomCode);
+              } else {
+                // Mark player as disconnected instead of removing them
+                const player = room.players.get(playerId);
+                if (player) {
+                  roomManager.updatePlayerConnection(roomCode, playerId, false);
+                  console.log("Player marked as disconnected:", {
+                    playerId,
+                    playerName: player.name,
+                    roomCode,
+                    remainingPlayers: room.players.size,
+                  });
+
+                  // Notify others that player disconnected (but stay in room for rejoin)
+                  io.to(roomCode).emit("player-disconnected", {
+                    playerId,
+                    playerName: player.name,
+                    players: getPublicPlayers(room),
+                  });
+                }
+              }
             }
-          }
+          });
+        } catch (error) {
+          console.error("Error handling disconnect:", error);
         }
       }
     });
   });
 
+  // Save rooms before shutting down so they can be restored on the next boot
+  const handleShutdown = () => {
+    roomManager.flush();
+    process.exit(0);
+  };
+  process.once("SIGINT", handleShutdown);
+  process.once("SIGTERM", handleShutdown);
+
   // Cleanup old rooms every 30 minutes
   setInterval(
     () => {
-      const cleaned = roomManager.cleanupOldRooms(60);
-      if (cleaned > 0) {
-        // Cleanup done
+      try {
+        const cleaned = roomManager.cleanupOldRooms(60);
+        if (cleaned > 0) {
+          // Cleanup done
+        }
+      } catch (error) {
+        console.error("Error cleaning up rooms:", error);
       }
     },
     30 * 60 * 1000,
@@ -923,6 +2200,6 @@ export function initializeSocketServer(server: HTTPServer) {
   return io;
 }
 
-export function getIO(server: HTTPServer): IOServer | undefined {
+export function getIO(server: HTTPServer): GameServer | undefined {
   return (server as SocketServer).io;
 }
@@ -0,0 +1,239 @@
+import { isValidLocale } from "../config/language";
+import type { Locale } from "../config/language";
+import { SPECIAL_ROLES } from "../lib/roles";
+import {
+  DEFAULT_MAX_PLAYERS,
+  MAX_ROOM_PLAYERS,
+  MIN_ROOM_PLAYERS,
+} from "../lib/room-limits";
+import {
+  DEFAULT_SCORING_RULES,
+  MAX_GUESS_MULTIPLIER,
+  MAX_RULE_POINTS,
+} from "../lib/scoring";
+import type { Difficulty, HostPhaseChange } from "../types/game";
+import type {
+  ClientToServerEvents,
+  PayloadIssue,
+} from "../types/socket-events";
+import { MAX_MATCH_PLAYERS, MIN_MATCH_PLAYERS } from "./matchmaking";
+import { VOTING_MODES } from "./voting-rules";
+import type { Socket } from "socket.io";
+import { z } from "zod";
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+const HOST_PHASE_CHANGES: HostPhaseChange[] = ["clues", "discussion", "voting"];
+const MAX_DISCUSSION_SECONDS = 30 * 60;
+const MAX_VOTING_SECONDS = 10 * 60;
+const MAX_MATCH_ROUNDS = 10;
+const MAX_PLAYER_NAME_LENGTH = 20;
+const MAX_CATEGORY_LENGTH = 50;
+
+type ClientEvent = keyof ClientToServerEvents;
+type EventPayload<E extends ClientEvent> = Parameters<
+  ClientToServerEvents[E]
+>[0];
+
+// Events that send data first; the others only send their callback
+type PayloadEvent = {
+  [E in ClientEvent]: EventPayload<E> extends (...args: never[]) => void
+    ? never
+    : E;
+}[ClientEvent];
+type CallbackOnlyEvent = Exclude<ClientEvent, PayloadEvent>;
+
+const playerName = z
+  .string()
+  .trim()
+  .min(1, "Invalid player name")
+  .max(MAX_PLAYER_NAME_LENGTH, "Invalid player name");
+const playerTarget = z.object({ playerId: z.string() });
+
+const locale = z.custom<Locale>(
+  value => typeof value === "string" && isValidLocale(value),
+  "Unsupported language",
+);
+const rulePoints = z.number().int().min(0).max(MAX_RULE_POINTS);
+const playerLimit = z
+  .number()
+  .int()
+  .min(MIN_ROOM_PLAYERS)
+  .max(MAX_ROOM_PLAYERS);
+// Phase durations are whole seconds, 0 for no limit
+const duration = (maxSeconds: number) =>
+  z.number().int().min(0).max(maxSeconds).default(0);
+
+// Settings older clients don't send get their defaults; anything sent has
+// to be valid
+const gameConfig = z
+  .object({
+    selectedCategories: z
+      .array(z.string().trim().min(1).max(MAX_CATEGORY_LENGTH))
+      .min(1, "Select at least one category"),
+    difficulty: z.enum(DIFFICULTIES).default("medium"),
+    showHintsToImpostors: z.boolean().default(true),
+    undercover: z.boolean().default(false),
+    specialRoles: z.array(z.enum(SPECIAL_ROLES)).default([]),
+    impostorTeam: z.boolean().default(false),
+    clueRound: z.boolean().default(false),
+    impostorCount: z.number().int().min(1).max(MAX_ROOM_PLAYERS).default(1),
+    minPlayers: playerLimit.default(MIN_ROOM_PLAYERS),
+    maxPlayers: playerLimit.default(DEFAULT_MAX_PLAYERS),
+    language: locale.default("en"),
+    discussionDuration: duration(MAX_DISCUSSION_SECONDS),
+    votingDuration: duration(MAX_VOTING_SECONDS),
+    scoringRules: z
+      .object({
+        winPoints: rulePoints,
+        correctVotePoints: rulePoints,
+        wrongVotePenalty: rulePoints,
+        impostorSurvivalBonus: rulePoints,
+        guessMultiplier: z.number().int().min(1).max(MAX_GUESS_MULTIPLIER),
+      })
+      .default(DEFAULT_SCORING_RULES),
+    matchRounds: z.number().int().min(1).max(MAX_MATCH_ROUNDS).default(1),
+    votingMode: z.enum(VOTING_MODES).default("plurality"),
+  })
+  .refine(config => config.maxPlayers >= config.minPlayers, {
+    path: ["maxPlayers"],
+    message: "Room size can't be below the minimum players",
+  })
+  .transform(config => ({
+    ...config,
+    // Undercover impostors don't know they're impostors, so can't team up
+    impostorTeam: config.impostorTeam && !config.undercover,
+  }));
+
+// What each event's data must look like. What's sent is replaced with the
+// parsed result, so handlers get trimmed names and clamped numbers.
+const payloadSchemas: {
+  [E in PayloadEvent]: z.ZodType<EventPayload<E>>;
+} = {
+  "create-room": z.object({
+    hostName: playerName,
+    password: z.string().optional(),
+    isPublic: z.boolean().optional(),
+  }),
+  "join-room": z.object({
+    roomCode: z.string(),
+    playerName,
+    password: z.string().optional(),
+    sessionToken: z.string().optional(),
+  }),
+  "rejoin-room": z.object({ sessionToken: z.string() }),
+  "leave-room": z.object({}),
+  "join-queue": z.object({
+    playerName,
+    language: z
+      .custom<Locale>(
+        value => typeof value === "string" && isValidLocale(value),
+      )
+      .catch("en"),
+    preferredPlayers: z
+      .number()
+      .int()
+      .min(MIN_MATCH_PLAYERS)
+      .max(MAX_MATCH_PLAYERS)
+      .catch(MIN_MATCH_PLAYERS),
+  }),
+  "kick-player": playerTarget,
+  "ban-player": playerTarget,
+  "transfer-host": playerTarget,
+  "lock-room": z.object({ locked: z.boolean() }),
+  "update-room-settings": gameConfig,
+  "start-game": gameConfig,
+  "restart-game": gameConfig,
+  "change-phase": z.enum(HOST_PHASE_CHANGES),
+  "timer-control": z.object({
+    action: z.enum(["pause", "resume", "extend", "skip"]),
+    seconds: z.number().positive().optional(),
+  }),
+  "submit-clue": z.object({ clue: z.string() }),
+  "submit-vote": z.object({ votedForId: z.string() }),
+  "investigate-player": playerTarget,
+  "submit-impostor-guess": z.object({ guess: z.string() }),
+  "send-chat-message": z.object({
+    text: z.string(),
+    channel: z.enum(["room", "impostors"]).optional(),
+  }),
+  "send-notification": z.object({
+    type: z.enum(["info", "success", "warning", "error"]),
+    message: z.string(),
+    title: z.string().optional(),
+  }),
+};
+
+const callbackOnlyEvents: Record<CallbackOnlyEvent, true> = {
+  "close-room": true,
+  "list-public-rooms": true,
+  "leave-queue": true,
+  "player-revealed": true,
+  "calculate-votes": true,
+  "reveal-impostor": true,
+  "show-standings": true,
+  "get-chat-history": true,
+};
+
+// Events that are fire-and-forget; every other event must bring a callback
+const NO_CALLBACK_EVENTS: ClientEvent[] = ["send-notification"];
+
+function isPayloadEvent(event: string): event is PayloadEvent {
+  return Object.prototype.hasOwnProperty.call(payloadSchemas, event);
+}
+
+function getIssues(error: z.ZodError): PayloadIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Checks every event a client sends against the contract in
+ * src/types/socket-events.ts before its handler runs. Bad payloads are
+ * answered with what was wrong; events that aren't in the contract, or that
+ * come without the callback they need, are dropped.
+ */
+export function validateSocketPayloads(socket: Socket): void {
+  socket.use((packet, next) => {
+    const [event, ...args] = packet;
+    const isPayload = isPayloadEvent(event);
+    if (
+      !isPayload &&
+      !Object.prototype.hasOwnProperty.call(callbackOnlyEvents, event)
+    ) {
+      console.error("Unknown socket event:", { socketId: socket.id, event });
+      return;
+    }
+
+    const callback = args[args.length - 1];
+    if (
+      !NO_CALLBACK_EVENTS.includes(event as ClientEvent) &&
+      typeof callback !== "function"
+    ) {
+      console.error("Socket event without a callback:", {
+        socketId: socket.id,
+        event,
+      });
+      return;
+    }
+    if (!isPayload) return next();
+
+    const result = payloadSchemas[event].safeParse(args[0]);
+    if (!result.success) {
+      const issues = getIssues(result.error);
+      console.log("Invalid socket payload:", {
+        socketId: socket.id,
+        event,
+        issues,
+      });
+      if (typeof callback === "function") {
+        callback({ success: false, error: issues[0]?.message, issues });
+      }
+      return;
+    }
+
+    packet[1] = result.data;
+    next();
+  });
+}
@@ -0,0 +1,88 @@
+import { isPlaying } from "../lib/players";
+import type { Player, Vote, VotingMode } from "../types/game";
+
+export type Team = "crew" | "impostors";
+
+export interface VoteOutcome {
+  voteCounts: Map<string, number>;
+  ejectedId: string | null; // Nobody on a tie or a missed majority
+  winner: Team | null; // Null while an elimination game goes on
+}
+
+export const VOTING_MODES: VotingMode[] = [
+  "plurality",
+  "majority",
+  "elimination",
+];
+
+function countVotes(players: Player[], votes: Vote[]): Map<string, number> {
+  const voteCounts = new Map(players.map(p => [p.id, 0]));
+  votes.forEach(vote => {
+    const count = voteCounts.get(vote.votedForId);
+    if (count !== undefined) voteCounts.set(vote.votedForId, count + 1);
+  });
+  return voteCounts;
+}
+
+// The player with the most votes, unless several share the top spot
+function findMostVoted(voteCounts: Map<string, number>): string | null {
+  let mostVotedId: string | null = null;
+  let mostVotes = 0;
+  let tied = false;
+
+  voteCounts.forEach((count, playerId) => {
+    if (count > mostVotes) {
+      mostVotedId = playerId;
+      mostVotes = count;
+      tied = false;
+    } else if (count === mostVotes && count > 0) {
+      tied = true;
+    }
+  });
+
+  return tied ? null : mostVotedId;
+}
+
+/**
+ * Applies the room's voting rule to one round of votes. Ejected players no
+ * longer vote or get votes, and neither do spectators.
+ *
+ * - plurality: the most voted player is ejected, and the crew wins if that
+ *   was an impostor
+ * - majority: like plurality, but only with votes from more than half of
+ *   the players who could vote
+ * - elimination: the most voted player is ejected each round until every
+ *   impostor is out or impostors are as many as the remaining crew
+ */
+export function decideVote(
+  mode: VotingMode,
+  players: Player[],
+  votes: Vote[],
+): VoteOutcome {
+  const inGame = players.filter(isPlaying);
+  const voteCounts = countVotes(inGame, votes);
+  let ejectedId = findMostVoted(voteCounts);
+
+  if (mode === "majority" && ejectedId) {
+    const needed = Math.floor(inGame.length / 2) + 1;
+    if ((voteCounts.get(ejectedId) || 0) < needed) ejectedId = null;
+  }
+
+  const isImpostor = (id: string | null) =>
+    inGame.some(p => p.id === id && p.role === "impostor");
+
+  if (mode !== "elimination") {
+    const winner = isImpostor(ejectedId) ? "crew" : "impostors";
+    return { voteCounts, ejectedId, winner };
+  }
+
+  const remaining = inGame.filter(p => p.id !== ejectedId);
+  const impostorsLeft = remaining.filter(p => p.role === "impostor").length;
+  const crewLeft = remaining.length - impostorsLeft;
+
+  let winner: Team | null = null;
+  if (impostorsLeft === 0) winner = "crew";
+  else if (impostorsLeft >= crewLeft) winner = "impostors";
+
+  return { voteCounts, ejectedId, winner };
+}
@@ -0,0 +1,239 @@
+import type { Locale } from "../config/language";
+import {
+  FALLBACK_WORD_PAIRS,
+  FALLBACK_WORDS_WITH_HINTS,
+} from "../data/fallbackwords";
+import { openAIService } from "../lib/openai-service";
+import { PromptEngine } from "../lib/prompts";
+import type { Difficulty, WordPair, WordWithHints } from "../types/game";
+
+const AI_TIMEOUT_MS = 30000;
+
+export interface SelectedWord extends WordWithHints {
+  category: string;
+  decoy?: string; // Only picked for undercover rounds
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function getFallbackWords(category: string, language: Locale): WordWithHints[] {
+  const fallbacksForLanguage = FALLBACK_WORDS_WITH_HINTS[language];
+  if (!fallbacksForLanguage) return [];
+
+  return (
+    fallbacksForLanguage[
+      category.toLowerCase() as keyof typeof fallbacksForLanguage
+    ] || []
+  );
+}
+
+function getFallbackPairs(category: string, language: Locale): WordPair[] {
+  const fallbacksForLanguage = FALLBACK_WORD_PAIRS[language];
+  if (!fallbacksForLanguage) return [];
+
+  return (
+    fallbacksForLanguage[
+      category.toLowerCase() as keyof typeof fallbacksForLanguage
+    ] || []
+  );
+}
+
+async function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error("AI word generation timed out")),
+      AI_TIMEOUT_MS,
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function generateWordWithAI(
+  category: string,
+  language: Locale,
+  difficulty: Difficulty,
+  rateLimitKey: string,
+): Promise<WordWithHints | null> {
+  if (!openAIService) return null;
+
+  // Same budget per room as the HTTP endpoint has per IP, so restarting
+  // rounds in a loop can't burn through the AI quota
+  if (!openAIService.checkRateLimit(rateLimitKey)) {
+    console.warn("AI word generation rate limited:", { rateLimitKey });
+    return null;
+  }
+
+  const prompt = PromptEngine.createPrompt({
+    category,
+    language,
+    count: 1,
+    difficulty,
+    culturalContext: "universal",
+  });
+
+  const result = await withTimeout(openAIService.generateWords(prompt));
+
+  if (!PromptEngine.validateResponse(result, 1)) {
+    throw new Error("Generated response does not match expected format");
+  }
+
+  const { word, hints } = result.wordsWithHints[0];
+  const normalizedWord = word.toLowerCase().trim();
+  const wordInHints = hints.some(
+    hint =>
+      hint.toLowerCase().includes(normalizedWord) ||
+      normalizedWord.includes(hint.toLowerCase()),
+  );
+
+  if (wordInHints) {
+    throw new Error("Generated hints give away the word");
+  }
+
+  return { word, hints };
+}
+
+async function generateWordPairWithAI(
+  category: string,
+  language: Locale,
+  difficulty: Difficulty,
+  rateLimitKey: string,
+): Promise<WordPair | null> {
+  if (!openAIService) return null;
+
+  if (!openAIService.checkRateLimit(rateLimitKey)) {
+    console.warn("AI word generation rate limited:", { rateLimitKey });
+    return null;
+  }
+
+  const prompt = PromptEngine.createPairPrompt({
+    category,
+    language,
+    count: 1,
+    difficulty,
+    culturalContext: "universal",
+  });
+
+  const result = await withTimeout(openAIService.generateWordPairs(prompt));
+
+  if (!PromptEngine.validatePairResponse(result, 1)) {
+    throw new Error("Generated response does not match expected format");
+  }
+
+  const { word, decoy } = result.wordPairs[0];
+  const normalizedWord = word.toLowerCase().trim();
+  const normalizedDecoy = decoy.toLowerCase().trim();
+
+  if (
+    normalizedWord.includes(normalizedDecoy) ||
+    normalizedDecoy.includes(normalizedWord)
+  ) {
+    throw new Error("Generated decoy gives away the word");
+  }
+
+  return { word, decoy };
+}
+
+/**
+ * Picks a random category from the host's selection and a secret word for
+ * it. Uses the AI service when configured and falls back to the built-in
+ * word lists otherwise.
+ */
+export async function selectWord(
+  categories: string[],
+  language: Locale,
+  difficulty: Difficulty,
+  rateLimitKey: string,
+): Promise<SelectedWord> {
+  const category = pickRandom(categories);
+
+  try {
+    const generated = await generateWordWithAI(
+      category,
+      language,
+      difficulty,
+      rateLimitKey,
+    );
+    if (generated) {
+      return { ...generated, category };
+    }
+  } catch (error) {
+    console.error("Error generating word, using fallback:", error);
+  }
+
+  const fallbackWords = getFallbackWords(category, language);
+  if (fallbackWords.length > 0) {
+    return { ...pickRandom(fallbackWords), category };
+  }
+
+  // Custom categories have no built-in words; use another selected category
+  const categoriesWithFallback = categories.filter(
+    c => getFallbackWords(c, language).length > 0,
+  );
+  if (categoriesWithFallback.length > 0) {
+    const fallbackCategory = pickRandom(categoriesWithFallback);
+    return {
+      ...pickRandom(getFallbackWords(fallbackCategory, language)),
+      category: fallbackCategory,
+    };
+  }
+
+  throw new Error(
+    `No words available for categories "${categories.join(", ")}" in language "${language}"`,
+  );
+}
+
+/**
+ * Like selectWord, but picks a secret word with a close decoy for the
+ * undercover variant. Pairs come without hints.
+ */
+export async function selectWordPair(
+  categories: string[],
+  language: Locale,
+  difficulty: Difficulty,
+  rateLimitKey: string,
+): Promise<SelectedWord> {
+  const category = pickRandom(categories);
+
+  try {
+    const generated = await generateWordPairWithAI(
+      category,
+      language,
+      difficulty,
+      rateLimitKey,
+    );
+    if (generated) {
+      return { ...generated, hints: [], category };
+    }
+  } catch (error) {
+    console.error("Error generating word pair, using fallback:", error);
+  }
+
+  const fallbackPairs = getFallbackPairs(category, language);
+  if (fallbackPairs.length > 0) {
+    return { ...pickRandom(fallbackPairs), hints: [], category };
+  }
+
+  const categoriesWithFallback = categories.filter(
+    c => getFallbackPairs(c, language).length > 0,
+  );
+  if (categoriesWithFallback.length > 0) {
+    const fallbackCategory = pickRandom(categoriesWithFallback);
+    return {
+      ...pickRandom(getFallbackPairs(fallbackCategory, language)),
+      hints: [],
+      category: fallbackCategory,
+    };
+  }
+
+  throw new Error(
+    `No word pairs available for categories "${categories.join(", ")}" in language "${language}"`,
+  );
+}
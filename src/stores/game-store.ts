@@ -1,32 +1,78 @@
 import { Locale } from "../config/language";
-import { getRandomWordWithHints } from "@/src/lib/word-service";
+import { getGameConfig } from "@/src/lib/game-config";
+import { assignRoles, RECENT_ROUNDS } from "@/src/lib/role-assignment";
+import { getSoloWinners, getTeamWinners } from "@/src/lib/roles";
+import {
+  DEFAULT_MAX_PLAYERS,
+  getMaxImpostors,
+  MIN_ROOM_PLAYERS,
+} from "@/src/lib/room-limits";
+import { calculateRoundPoints, DEFAULT_SCORING_RULES } from "@/src/lib/scoring";
+import { isCorrectGuess } from "@/src/lib/word-guess";
+import {
+  getRandomWordPair,
+  getRandomWordWithHints,
+} from "@/src/lib/word-service";
 import type {
   Difficulty,
   GameState,
+  PhaseTimer,
   Player,
+  PrivatePlayerData,
+  ScoringRules,
+  SpecialRole,
   TranslationFunction,
+  VotingMode,
+  WordWithHints,
 } from "@/src/types/game";
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
+// Fires when the local (pass-and-play) phase timer runs out
+let localTimerTimeout: ReturnType<typeof setTimeout> | undefined;
+
+// The server sends how much time is left; count down from our own clock so a
+// skewed device clock doesn't matter
+function toLocalTimer(timer: PhaseTimer | undefined): PhaseTimer | undefined {
+  if (!timer) return undefined;
+  return {
+    ...timer,
+    endsAt: timer.paused ? undefined : Date.now() + timer.remainingMs,
+  };
+}
+
 interface GameStore {
   gameState: GameState;
   playerNames: string[];
+  recentImpostorNames: string[][]; // Local rounds' impostors, newest first
   customCategories: string[];
   _hasHydrated: boolean;
   currentPlayerId: string | null;
+  privateData: PrivatePlayerData | null; // Own role and word in multiplayer
   isGeneratingWord: boolean;
   setHasHydrated: (state: boolean) => void;
 
   setPlayerCount: (count: number, t: TranslationFunction) => void;
   setPlayerName: (index: number, name: string) => void;
   setImpostorCount: (count: number) => void;
+  setMinPlayers: (count: number) => void; // Multiplayer
+  setMaxPlayers: (count: number) => void; // Multiplayer
   setDifficulty: (difficulty: Difficulty) => void;
   toggleCategory: (category: string) => void;
   addCustomCategory: (category: string) => void;
   setCustomCategory: (category: string) => void;
   removeCustomCategory: (category: string) => void;
   toggleHints: () => void;
+  toggleUndercover: () => void;
+  toggleSpecialRole: (role: SpecialRole) => void;
+  investigatePlayer: (detectiveId: string, playerId: string) => void;
+  toggleImpostorTeam: () => void;
+  toggleClueRound: () => void;
+  setDiscussionDuration: (seconds: number) => void;
+  setVotingDuration: (seconds: number) => void;
+  setScoringRules: (rules: ScoringRules) => void;
+  setMatchRounds: (rounds: number) => void;
+  setVotingMode: (mode: VotingMode) => void;
 
   // Multiplayer functions
   setRoomData: (
@@ -40,18 +86,35 @@ interface GameStore {
   updateGameStateFromServer: (gameState: Partial<GameState>) => void;
   updatePlayers: (players: Player[]) => void;
   setCurrentPlayerId: (playerId: string) => void;
+  setPrivateData: (privateData: PrivatePlayerData | null) => void;
 
   startGame: (t: TranslationFunction, language: Locale) => Promise<void>;
   nextRevealPlayer: () => void;
   startDiscussion: () => void;
   startVoting: () => void;
+  submitLocalVotes: (votedForIds: string[]) => void;
+  submitImpostorGuess: (playerId: string, guess: string) => void;
   endGame: () => void;
   newGame: () => void;
   setPhase: (phase: GameState["phase"]) => void;
+
+  // Local phase timer
+  setTimer: (timer: PhaseTimer | undefined) => void;
+  pauseTimer: () => void;
+  resumeTimer: () => void;
+  extendTimer: (seconds: number) => void;
+  skipTimer: () => void;
 }
 
+// What survives a reload: saved names and settings, plus enough of the room
+// to rejoin it
+type PersistedGameStore = Pick<
+  GameStore,
+  "customCategories" | "playerNames" | "recentImpostorNames" | "currentPlayerId"
+> & { gameState: Partial<GameState> };
+
 export const useGameStore = create<GameStore>()(
-  persist(
+  persist<GameStore, [], [], PersistedGameStore>(
     (set, get) => ({
       gameState: {
         phase: "setup",
@@ -67,12 +130,21 @@ export const useGameStore = create<GameStore>()(
         showHintsToImpostors: true,
         currentRevealIndex: 0,
         gameStarted: false,
+        discussionDuration: 0,
+        votingDuration: 0,
+        scoringRules: DEFAULT_SCORING_RULES,
+        matchRounds: 1,
+        votingMode: "plurality",
+        minPlayers: MIN_ROOM_PLAYERS,
+        maxPlayers: DEFAULT_MAX_PLAYERS,
       },
 
       playerNames: [],
+      recentImpostorNames: [],
       customCategories: [],
       _hasHydrated: false,
       currentPlayerId: null,
+      privateData: null,
       isGeneratingWord: false,
       setHasHydrated: state => set({ _hasHydrated: state }),
       setPlayerCount: (count, t) => {
@@ -110,6 +182,37 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      // The limits never cross, and the room can't fill up with impostors
+      setMinPlayers: count => {
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            minPlayers: count,
+            maxPlayers: Math.max(
+              state.gameState.maxPlayers ?? DEFAULT_MAX_PLAYERS,
+              count,
+            ),
+          },
+        }));
+      },
+
+      setMaxPlayers: count => {
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            maxPlayers: count,
+            minPlayers: Math.min(
+              state.gameState.minPlayers ?? MIN_ROOM_PLAYERS,
+              count,
+            ),
+            impostorCount: Math.min(
+              state.gameState.impostorCount,
+              getMaxImpostors(count),
+            ),
+          },
+        }));
+      },
+
       setDifficulty: difficulty => {
         set(state => ({
           gameState: { ...state.gameState, difficulty },
@@ -185,6 +288,101 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
+      toggleUndercover: () => {
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            undercover: !state.gameState.undercover,
+          },
+        }));
+      },
+
+      toggleSpecialRole: role => {
+        set(state => {
+          const specialRoles = state.gameState.specialRoles || [];
+          return {
+            gameState: {
+              ...state.gameState,
+              specialRoles: specialRoles.includes(role)
+                ? specialRoles.filter(r => r !== role)
+                : [...specialRoles, role],
+            },
+          };
+        });
+      },
+
+      // Local mode: the detective checks a player while holding the device
+      investigatePlayer: (detectiveId, playerId) => {
+        set(state => {
+          const player = state.gameState.players.find(p => p.id === playerId);
+          if (!player) return state;
+
+          return {
+            gameState: {
+              ...state.gameState,
+              investigations: [
+                ...(state.gameState.investigations || []),
+                {
+                  detectiveId,
+                  playerId,
+                  playerName: player.name,
+                  isImpostor: player.role === "impostor",
+                  voteRound: state.gameState.voteRound ?? 1,
+                },
+              ],
+            },
+          };
+        });
+      },
+
+      toggleImpostorTeam: () => {
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            impostorTeam: !state.gameState.impostorTeam,
+          },
+        }));
+      },
+
+      toggleClueRound: () => {
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            clueRound: !state.gameState.clueRound,
+          },
+        }));
+      },
+
+      setDiscussionDuration: seconds => {
+        set(state => ({
+          gameState: { ...state.gameState, discussionDuration: seconds },
+        }));
+      },
+
+      setVotingDuration: seconds => {
+        set(state => ({
+          gameState: { ...state.gameState, votingDuration: seconds },
+        }));
+      },
+
+      setScoringRules: rules => {
+        set(state => ({
+          gameState: { ...state.gameState, scoringRules: rules },
+        }));
+      },
+
+      setMatchRounds: rounds => {
+        set(state => ({
+          gameState: { ...state.gameState, matchRounds: rounds },
+        }));
+      },
+
+      setVotingMode: mode => {
+        set(state => ({
+          gameState: { ...state.gameState, votingMode: mode },
+        }));
+      },
+
       // Multiplayer functions
       setRoomData: (roomCode, playerId, hostId) => {
         set(state => ({
@@ -206,6 +404,7 @@ export const useGameStore = create<GameStore>()(
             localStorage.removeItem("roomCode");
             localStorage.removeItem("playerId");
             localStorage.removeItem("hostId");
+            localStorage.removeItem("sessionToken");
           }
         }
       },
@@ -223,17 +422,20 @@ export const useGameStore = create<GameStore>()(
             roomCode: undefined,
             hostId: undefined,
             isMultiplayer: false,
+            locked: undefined,
             gameStarted: false,
             phase: "setup",
             players: [],
           },
           currentPlayerId: null,
+          privateData: null,
         }));
         // Clear localStorage (individual keys and Zustand persist will auto-sync)
         if (typeof window !== "undefined") {
           localStorage.removeItem("roomCode");
           localStorage.removeItem("playerId");
           localStorage.removeItem("hostId");
+          localStorage.removeItem("sessionToken");
         }
       },
 
@@ -247,7 +449,17 @@ export const useGameStore = create<GameStore>()(
         });
 
         set(state => ({
-          gameState: { ...state.gameState, ...gameState },
+          gameState: {
+            ...state.gameState,
+            ...gameState,
+            // Full updates (with a phase) and timer updates replace the timer
+            timer:
+              gameState.phase || "timer" in gameState
+                ? toLocalTimer(gameState.timer)
+                : state.gameState.timer,
+            // A full update without a match means the match is over
+            match: gameState.phase ? gameState.match : state.gameState.match,
+          },
         }));
       },
 
@@ -266,6 +478,10 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      setPrivateData: privateData => {
+        set({ privateData });
+      },
+
       setPhase: phase => {
         set(state => ({
           gameState: { ...state.gameState, phase },
@@ -289,101 +505,29 @@ export const useGameStore = create<GameStore>()(
         set({ isGeneratingWord: true });
 
         try {
-          // If multiplayer, we'll handle it differently
+          // If multiplayer, the server picks the word so the host never
+          // knows it. Only the configuration is sent.
           if (gameState.isMultiplayer) {
             const { socketService } = await import("@/src/lib/socket-service");
 
-            // Generate word first - call API directly
-            const randomCategory =
-              gameState.selectedCategories[
-                Math.floor(Math.random() * gameState.selectedCategories.length)
-              ];
-
-            try {
-              // Call API directly to ensure AI generation with timeout
-              const controller = new AbortController();
-              const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-              const response = await fetch("/api/generate-words", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  category: randomCategory,
-                  language,
-                  count: 1,
-                  difficulty: gameState.difficulty,
-                }),
-                signal: controller.signal,
-              });
-
-              clearTimeout(timeoutId);
-              if (!response.ok) {
-                throw new Error("API call failed");
-              }
-
-              const data = await response.json();
-              const wordData = data.wordsWithHints[0];
-
-              console.log(
-                `Starting multiplayer game with category: ${randomCategory}, word: ${
-                  wordData.word
-                }, hints: ${wordData.hints.join(", ")}`,
-              );
-
-              // Send configuration to server
+            await new Promise<void>(resolve => {
               socketService.startGame(
-                // @ts-expect-error - Server expects config object, not full GameState
-                {
-                  currentWord: wordData.word,
-                  currentHints: wordData.hints,
-                  currentCategory: randomCategory,
-                  selectedCategories: gameState.selectedCategories,
-                  difficulty: gameState.difficulty,
-                  showHintsToImpostors: gameState.showHintsToImpostors,
-                  impostorCount: gameState.impostorCount,
-                },
+                getGameConfig(gameState, language),
                 response => {
-                  set({ isGeneratingWord: false });
                   if (!response.success) {
                     console.error("Failed to start game:", response.error);
                   }
+                  resolve();
                 },
               );
-            } catch (error) {
-              console.error("Error calling API, using fallback:", error);
-              // Fallback to getRandomWordWithHints if API fails
-              const wordWithHints = await getRandomWordWithHints(
-                randomCategory,
-                language,
-                gameState.difficulty,
-              );
-
-              socketService.startGame(
-                // @ts-expect-error - Server expects config object, not full GameState
-                {
-                  currentWord: wordWithHints.word,
-                  currentHints: wordWithHints.hints,
-                  currentCategory: randomCategory,
-                  selectedCategories: gameState.selectedCategories,
-                  difficulty: gameState.difficulty,
-                  showHintsToImpostors: gameState.showHintsToImpostors,
-                  impostorCount: gameState.impostorCount,
-                },
-                response => {
-                  set({ isGeneratingWord: false });
-                  if (!response.success) {
-                    console.error("Failed to start game:", response.error);
-                  }
-                },
-              );
-            }
+            });
 
             return;
           }
 
           // Local game logic
-          const { playerNames } = get();
-          const players: Player[] = Array.from(
+          const { playerNames, recentImpostorNames } = get();
+          const seats: Player[] = Array.from(
             { length: gameState.totalPlayers },
             (_, i) => ({
               id: `${i + 1}`,
@@ -394,24 +538,42 @@ export const useGameStore = create<GameStore>()(
             }),
           );
 
-          const shuffledIndexes = Array.from(
-            { length: gameState.totalPlayers },
-            (_, i) => i,
-          ).sort(() => Math.random() - 0.5);
-
-          for (let i = 0; i < gameState.impostorCount; i++) {
-            players[shuffledIndexes[i]].role = "impostor";
-          }
+          // Seat ids change when names are reordered, so history is by name
+          const idsByName = new Map(seats.map(p => [p.name, p.id]));
+          const players = assignRoles(seats, {
+            impostorCount: gameState.impostorCount,
+            specialRoles: gameState.specialRoles ?? [],
+            recentImpostorIds: recentImpostorNames.map(names =>
+              names.flatMap(name => idsByName.get(name) ?? []),
+            ),
+          });
+          set({
+            recentImpostorNames: [
+              players.filter(p => p.role === "impostor").map(p => p.name),
+              ...recentImpostorNames,
+            ].slice(0, RECENT_ROUNDS),
+          });
 
           const randomCategory =
             gameState.selectedCategories[
               Math.floor(Math.random() * gameState.selectedCategories.length)
             ];
-          const wordWithHints = await getRandomWordWithHints(
-            randomCategory,
-            language,
-            gameState.difficulty,
-          );
+          // Undercover rounds use a word pair and no hints
+          const wordWithHints: WordWithHints & { decoy?: string } =
+            gameState.undercover
+              ? {
+                  ...(await getRandomWordPair(
+                    randomCategory,
+                    language,
+                    gameState.difficulty,
+                  )),
+                  hints: [],
+                }
+              : await getRandomWordWithHints(
+                  randomCategory,
+                  language,
+                  gameState.difficulty,
+                );
 
           console.log(
             `Starting game with category: ${randomCategory}, word: ${
@@ -426,8 +588,14 @@ export const useGameStore = create<GameStore>()(
               players,
               currentWord: wordWithHints.word,
               currentHints: wordWithHints.hints,
+              decoyWord: wordWithHints.decoy,
+              investigations: undefined,
               currentCategory: randomCategory,
               currentRevealIndex: 0,
+              votingResults: undefined,
+              winners: undefined,
+              caughtImpostorIds: undefined,
+              impostorGuesses: undefined,
             },
           }));
         } catch (error) {
@@ -453,21 +621,148 @@ export const useGameStore = create<GameStore>()(
         set(state => ({
           gameState: { ...state.gameState, phase: "discussion" },
         }));
+
+        const { discussionDuration } = get().gameState;
+        if (discussionDuration) {
+          const durationMs = discussionDuration * 1000;
+          get().setTimer({
+            phase: "discussion",
+            durationMs,
+            remainingMs: durationMs,
+            endsAt: Date.now() + durationMs,
+            paused: false,
+          });
+        }
       },
 
       startVoting: () => {
+        get().setTimer(undefined);
         set(state => ({
           gameState: { ...state.gameState, phase: "voting", votes: [] },
         }));
       },
 
-      endGame: () => {
+      // Local mode: the group votes together on the one device
+      submitLocalVotes: votedForIds => {
+        const { players } = get().gameState;
+        const impostorIds = players
+          .filter(p => p.role === "impostor")
+          .map(p => p.id);
+        const caughtImpostorIds = impostorIds.filter(id =>
+          votedForIds.includes(id),
+        );
+        // Roles like the jester win alone when voted out
+        const soloWinners = getSoloWinners(players, votedForIds);
+        const winners =
+          soloWinners.length > 0
+            ? soloWinners
+            : getTeamWinners(
+                players,
+                caughtImpostorIds.length > 0 ? "player" : "impostor",
+              );
+
+        const votingResults = players.map(player => ({
+          playerId: player.id,
+          playerName: player.name,
+          voteCount: votedForIds.includes(player.id) ? 1 : 0,
+          isImpostor: player.role === "impostor",
+          correctVote:
+            caughtImpostorIds.length > 0 && player.role !== "impostor",
+          abstained: false,
+        }));
+
+        // Every regular player is credited with the group's votes
+        const votes = players
+          .filter(p => p.role !== "impostor")
+          .flatMap(voter =>
+            votedForIds.map(votedForId => ({ voterId: voter.id, votedForId })),
+          );
+
+        set(state => ({
+          gameState: {
+            ...state.gameState,
+            votes,
+            votingResults,
+            winners,
+            // Nobody gets to steal a solo win
+            caughtImpostorIds: soloWinners.length > 0 ? [] : caughtImpostorIds,
+            impostorGuesses: [],
+          },
+        }));
+
+        // Caught impostors get a last chance to guess the word
+        if (caughtImpostorIds.length > 0 && soloWinners.length === 0) {
+          get().setTimer(undefined);
+          set(state => ({
+            gameState: { ...state.gameState, phase: "impostorguess" },
+          }));
+        } else {
+          get().endGame();
+        }
+      },
+
+      // Local mode: a correct guess wins the round for the impostors
+      submitImpostorGuess: (playerId, guess) => {
+        const { gameState } = get();
+        const player = gameState.players.find(p => p.id === playerId);
+        if (!player) return;
+
+        const correct = isCorrectGuess(guess, gameState.currentWord);
+        const impostorGuesses = [
+          ...(gameState.impostorGuesses || []),
+          { playerId, playerName: player.name, guess, correct },
+        ];
+
         set(state => ({
-          gameState: { ...state.gameState, phase: "results" },
+          gameState: {
+            ...state.gameState,
+            impostorGuesses,
+            winners: correct
+              ? state.gameState.players
+                  .filter(p => p.role === "impostor")
+                  .map(p => p.id)
+              : state.gameState.winners,
+          },
         }));
+
+        const allGuessed = (gameState.caughtImpostorIds || []).every(id =>
+          impostorGuesses.some(g => g.playerId === id),
+        );
+        if (correct || allGuessed) get().endGame();
+      },
+
+      endGame: () => {
+        get().setTimer(undefined);
+        set(state => {
+          // Count the round's win and points for each player
+          const winners = state.gameState.winners || [];
+          const points = calculateRoundPoints(
+            state.gameState,
+            state.gameState.scoringRules,
+          );
+          const players = state.gameState.players.map(player => ({
+            ...player,
+            wins: (player.wins || 0) + (winners.includes(player.id) ? 1 : 0),
+            score: (player.score || 0) + (points.get(player.id) || 0),
+          }));
+          const votingResults = state.gameState.votingResults?.map(result => ({
+            ...result,
+            points: points.get(result.playerId) || 0,
+          }));
+
+          return {
+            gameState: {
+              ...state.gameState,
+              players,
+              votingResults,
+              phase: "results",
+            },
+          };
+        });
       },
 
       newGame: () => {
+        get().setTimer(undefined);
         set(state => ({
           gameState: {
             ...state.gameState,
@@ -483,12 +778,79 @@ export const useGameStore = create<GameStore>()(
             isMultiplayer: false,
           },
           currentPlayerId: null,
+          privateData: null,
         }));
         // Clear localStorage when starting new game
         if (typeof window !== "undefined") {
           localStorage.removeItem("roomCode");
           localStorage.removeItem("playerId");
           localStorage.removeItem("hostId");
+          localStorage.removeItem("sessionToken");
+        }
+      },
+
+      setTimer: timer => {
+        clearTimeout(localTimerTimeout);
+        set(state => ({ gameState: { ...state.gameState, timer } }));
+
+        if (!timer || timer.paused || timer.endsAt === undefined) return;
+
+        localTimerTimeout = setTimeout(() => {
+          const { gameState } = get();
+          // Discussion time is up: move on to voting
+          if (
+            gameState.phase === "discussion" &&
+            gameState.timer?.phase === "discussion"
+          ) {
+            get().startVoting();
+          }
+        }, timer.endsAt - Date.now());
+      },
+
+      pauseTimer: () => {
+        const { timer } = get().gameState;
+        if (!timer || timer.paused || timer.endsAt === undefined) return;
+
+        get().setTimer({
+          ...timer,
+          remainingMs: Math.max(0, timer.endsAt - Date.now()),
+          endsAt: undefined,
+          paused: true,
+        });
+      },
+
+      resumeTimer: () => {
+        const { timer } = get().gameState;
+        if (!timer || !timer.paused) return;
+
+        get().setTimer({
+          ...timer,
+          endsAt: Date.now() + timer.remainingMs,
+          paused: false,
+        });
+      },
+
+      extendTimer: seconds => {
+        const { timer } = get().gameState;
+        if (!timer) return;
+
+        const extraMs = seconds * 1000;
+        const remainingMs =
+          (timer.paused || timer.endsAt === undefined
+            ? timer.remainingMs
+            : Math.max(0, timer.endsAt - Date.now())) + extraMs;
+        get().setTimer({
+          ...timer,
+          durationMs: timer.durationMs + extraMs,
+          remainingMs,
+          endsAt: timer.paused ? undefined : Date.now() + remainingMs,
+        });
+      },
+
+      skipTimer: () => {
+        // Same as running out of time
+        if (get().gameState.timer?.phase === "discussion") {
+          get().startVoting();
         }
       },
     }),
@@ -496,7 +858,7 @@ export const useGameStore = create<GameStore>()(
       name: "party-game-storage",
       version: 1,
       migrate: (persistedState: unknown, version: number) => {
-        const state = persistedState as Partial<GameStore>;
+        const state = persistedState as PersistedGameStore;
         const migratedState = {
           ...state,
           gameState: {
@@ -523,31 +885,41 @@ export const useGameStore = create<GameStore>()(
         }
         return migratedState;
       },
-      // @ts-expect-error - Partialize intentionally returns partial state for persistence
-      partialize: state =>
-        ({
-          customCategories: state.customCategories,
-          playerNames: state.playerNames,
-          currentPlayerId: state.currentPlayerId,
-          gameState: {
-            totalPlayers: state.gameState.totalPlayers,
-            impostorCount: state.gameState.impostorCount,
-            difficulty: state.gameState.difficulty,
-            selectedCategories: state.gameState.selectedCategories,
-            showHintsToImpostors: state.gameState.showHintsToImpostors,
-            // Persist multiplayer room data
-            roomCode: state.gameState.roomCode,
-            hostId: state.gameState.hostId,
-            isMultiplayer: state.gameState.isMultiplayer,
-            gameStarted: state.gameState.gameStarted,
-            phase: state.gameState.phase,
-            players: state.gameState.players,
-            // Persist game data for reconnection during active game
-            currentWord: state.gameState.currentWord,
-            currentHints: state.gameState.currentHints,
-            currentCategory: state.gameState.currentCategory,
-          },
-        }) as Partial<GameStore>,
+      partialize: state => ({
+        customCategories: state.customCategories,
+        playerNames: state.playerNames,
+        recentImpostorNames: state.recentImpostorNames,
+        currentPlayerId: state.currentPlayerId,
+        gameState: {
+          totalPlayers: state.gameState.totalPlayers,
+          impostorCount: state.gameState.impostorCount,
+          difficulty: state.gameState.difficulty,
+          selectedCategories: state.gameState.selectedCategories,
+          showHintsToImpostors: state.gameState.showHintsToImpostors,
+          undercover: state.gameState.undercover,
+          specialRoles: state.gameState.specialRoles,
+          impostorTeam: state.gameState.impostorTeam,
+          clueRound: state.gameState.clueRound,
+          discussionDuration: state.gameState.discussionDuration,
+          votingDuration: state.gameState.votingDuration,
+          scoringRules: state.gameState.scoringRules,
+          matchRounds: state.gameState.matchRounds,
+          votingMode: state.gameState.votingMode,
+          minPlayers: state.gameState.minPlayers,
+          maxPlayers: state.gameState.maxPlayers,
+          // Persist multiplayer room data
+          roomCode: state.gameState.roomCode,
+          hostId: state.gameState.hostId,
+          isMultiplayer: state.gameState.isMultiplayer,
+          gameStarted: state.gameState.gameStarted,
+          phase: state.gameState.phase,
+          players: state.gameState.players,
+          // Persist game data for reconnection during active game
+          currentWord: state.gameState.currentWord,
+          currentHints: state.gameState.currentHints,
+          currentCategory: state.gameState.currentCategory,
+        },
+      }),
       onRehydrateStorage: () => state => {
         state?.setHasHydrated(true);
       },
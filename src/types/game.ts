@@ -4,13 +4,20 @@ export type Difficulty = "easy" | "medium" | "hard";
 
 export type TranslationFunction = (key: string) => string;
 
+// Optional roles on top of a player's side, see src/lib/roles.ts
+export type SpecialRole = "jester" | "detective" | "mrwhite";
+
 export interface Player {
   id: string;
   name: string;
   role: "player" | "impostor";
+  specialRole?: SpecialRole;
   isConnected?: boolean;
   hasRevealed?: boolean;
+  isAlive?: boolean; // False once ejected in an elimination game
+  isSpectator?: boolean; // Joined mid-game, plays from the next restart
   wins?: number; // Track wins for this player in the current room
+  score?: number; // Points scored in the current room
 }
 
 export interface WordWithHints {
@@ -18,6 +25,11 @@ export interface WordWithHints {
   hints: string[];
 }
 
+export interface WordPair {
+  word: string;
+  decoy: string; // Close to the word, given to undercover impostors
+}
+
 export interface WordSet {
   id: string;
   category: string;
@@ -32,37 +44,169 @@ export interface Vote {
   votedForId: string; // Player being voted for
 }
 
+// How votes decide who is ejected, see src/server/voting-rules.ts
+export type VotingMode = "plurality" | "majority" | "elimination";
+
+// A player voted out, whose role is revealed to everyone
+export interface Ejection {
+  playerId: string;
+  playerName: string;
+  role: Player["role"];
+  specialRole?: SpecialRole;
+  round: number; // Vote round the player was ejected in
+}
+
+// A detective's private check of another player
+export interface Investigation {
+  detectiveId: string;
+  playerId: string;
+  playerName: string;
+  isImpostor: boolean;
+  voteRound: number;
+}
+
 export interface VotingResult {
   playerId: string;
   playerName: string;
   voteCount: number;
   isImpostor: boolean;
   correctVote: boolean; // Whether they voted correctly
+  abstained: boolean; // Didn't vote before voting ended
+  ejected?: boolean; // Voted out in the final vote
+  points?: number; // Points scored this round, once the round is decided
+}
+
+// Points awarded at the end of each round, configured by the host
+export interface ScoringRules {
+  winPoints: number; // Every winner of the round
+  correctVotePoints: number; // Per vote a regular player gives an impostor
+  wrongVotePenalty: number; // Deducted per vote a regular player gives an innocent player
+  impostorSurvivalBonus: number; // Impostors nobody voted for
+  guessMultiplier: number; // Multiplies the points of an impostor who guesses the word
+}
+
+// One player's turn in a clue round
+export interface Clue {
+  playerId: string;
+  playerName: string;
+  text?: string; // Unset if the player's turn ran out
+  voteRound: number; // Clue rounds repeat before each elimination vote
+}
+
+// A finished round of a match
+export interface RoundSummary {
+  round: number;
+  category: string;
+  word: string;
+  impostorIds: string[];
+  winners: string[];
+  points: Record<string, number>; // Points per player ID
+  clues?: Clue[];
+}
+
+// Several rounds played back to back, with categories taking turns
+export interface Match {
+  totalRounds: number;
+  currentRound: number; // Starts at 1
+  categories: string[]; // Rotation order
+  history: RoundSummary[];
+}
+
+// A caught impostor's last-chance guess at the secret word
+export interface ImpostorGuess {
+  playerId: string;
+  playerName: string;
+  guess: string;
+  correct: boolean;
+}
+
+// Countdown for a timed phase. While it runs, `endsAt` is when it runs out;
+// while paused, `remainingMs` is the time that was left.
+export interface PhaseTimer {
+  phase: GameState["phase"];
+  durationMs: number;
+  remainingMs: number;
+  endsAt?: number; // Epoch ms, unset while paused
+  paused: boolean;
+}
+
+export type TimerAction = "pause" | "resume" | "extend" | "skip";
+
+// "impostors" is only delivered to the round's impostors
+export type ChatChannel = "room" | "impostors";
+
+export interface ChatMessage {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  channel: ChatChannel;
+  sentAt: number; // Epoch ms
 }
 
 export interface GameState {
-  phase: "setup" | "wordreveal" | "discussion" | "voting" | "results";
+  phase:
+    | "setup"
+    | "wordreveal"
+    | "clues"
+    | "discussion"
+    | "voting"
+    | "impostorguess"
+    | "results"
+    | "standings";
   players: Player[];
   totalPlayers: number;
   impostorCount: number;
   currentWord: string;
   currentHints: string[];
+  decoyWord?: string; // What undercover impostors get instead of the word
   currentCategory: string;
   selectedCategories: string[];
   customCategory: string;
   difficulty: Difficulty;
   showHintsToImpostors: boolean;
+  undercover?: boolean; // Impostors get a decoy word and aren't told their role
+  specialRoles?: SpecialRole[]; // Special roles the host turned on
+  investigations?: Investigation[]; // Detective checks, kept from the public
+  impostorTeam?: boolean; // Impostors learn who their teammates are and get a private channel
   currentRevealIndex: number;
   gameStarted: boolean;
   roomCode?: string;
   hostId?: string;
   isMultiplayer?: boolean;
+  locked?: boolean; // Multiplayer: the host stopped new players from joining
+  isPublic?: boolean; // Multiplayer: listed in the room browser
+  hasPassword?: boolean; // Multiplayer: joining takes the room password
+  minPlayers?: number; // Multiplayer: players needed to start a round
+  maxPlayers?: number; // Multiplayer: joins are refused once the room has this many
   startingPlayerId?: string; // Player who starts the discussion phase
+  clueRound?: boolean; // Players give one-word clues in turn before discussing
+  clueTurnOrder?: string[]; // Player IDs, from the starting player on
+  clueTurnIndex?: number; // Whose turn it is in clueTurnOrder
+  clues?: Clue[]; // Clues given this round
   votes?: Vote[]; // Current votes
+  votingMode?: VotingMode;
+  voteRound?: number; // Starts at 1, goes up with each elimination vote
+  ejections?: Ejection[]; // Players voted out so far
   votingResults?: VotingResult[]; // Results of the voting
   winners?: string[]; // Array of player IDs who won this round
+  caughtImpostorIds?: string[]; // Impostors who got votes and may guess the word
+  impostorGuesses?: ImpostorGuess[]; // Guesses of caught impostors
+  language?: Locale; // Language the server picks multiplayer words in
+  discussionDuration?: number; // Seconds, 0 for no time limit
+  votingDuration?: number; // Seconds, 0 for no time limit
+  scoringRules?: ScoringRules;
+  matchRounds?: number; // Rounds per match, 1 for single rounds
+  match?: Match; // The match being played, if any (multiplayer)
+  timer?: PhaseTimer; // Countdown of the current phase, if it is timed
 }
 
+// Phases the host can move a round on to; the rest follow from play
+export type HostPhaseChange = Extract<
+  GameState["phase"],
+  "clues" | "discussion" | "voting"
+>;
+
 // Multiplayer types
 export interface Room {
   code: string;
@@ -75,32 +219,213 @@ export interface Room {
 export interface JoinRoomData {
   roomCode: string;
   playerName: string;
+  password?: string;
+  sessionToken?: string; // From an earlier visit to this room, so bans stick
 }
 
-export interface CreateRoomData {
+// Who can find and enter a room
+export interface RoomAccessOptions {
+  password?: string; // Empty or missing for no password
+  isPublic?: boolean; // Listed in the room browser
+}
+
+export interface CreateRoomData extends RoomAccessOptions {
   hostName: string;
 }
 
+// A room as its players see it, without anyone's secrets
+export interface RoomSnapshot {
+  code: string;
+  hostId: string;
+  players: Player[];
+  gameState: GameState;
+}
+
+// What a player needs to enter a room they were put in
+export interface RoomEntryData {
+  roomCode: string;
+  playerId: string;
+  sessionToken: string;
+  room: RoomSnapshot;
+}
+
+export interface RejoinRoomData {
+  sessionToken: string;
+}
+
+// What a returning player gets back, including their own secrets
+export interface RoomRejoinedData {
+  playerId: string;
+  room: RoomSnapshot;
+  privateData?: PrivatePlayerData;
+}
+
+export interface JoinQueueData {
+  playerName: string;
+  language: Locale;
+  preferredPlayers: number;
+}
+
+// A public room as shown in the room browser
+export interface PublicRoomSummary {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  language?: Locale;
+  phase: GameState["phase"];
+  gameStarted: boolean;
+  hasPassword: boolean;
+}
+
+// Settings the host sends to start or restart a multiplayer round. The
+// server picks the category and the secret word itself.
+export interface GameConfig {
+  selectedCategories: string[];
+  difficulty: Difficulty;
+  showHintsToImpostors: boolean;
+  undercover: boolean;
+  specialRoles: SpecialRole[];
+  impostorTeam: boolean;
+  clueRound: boolean;
+  impostorCount: number;
+  minPlayers: number;
+  maxPlayers: number;
+  language: Locale;
+  discussionDuration: number;
+  votingDuration: number;
+  scoringRules: ScoringRules;
+  matchRounds: number;
+  votingMode: VotingMode;
+}
+
 export interface RoomUpdateData {
   roomCode: string;
   gameState: Partial<GameState>;
 }
 
+// Sent when a player joins, comes back or drops out
 export interface PlayerConnectedData {
   playerId: string;
   playerName: string;
+  players: Player[];
+}
+
+// Sent when a player leaves or reveals their card
+export interface PlayerUpdatedData {
+  playerId: string;
+  players: Player[];
+}
+
+export interface HostChangedData {
+  newHostId: string;
+  newHostName: string;
+  gameState: GameState;
+}
+
+export interface RoomClosedData {
+  message: string;
 }
 
-export interface PlayerDisconnectedData {
+// Secret part of the game state for a single player. The server never
+// broadcasts it: every socket only receives the copy for its own player.
+export interface PrivatePlayerData {
   playerId: string;
+  role: Player["role"];
+  word?: string; // Regular players' word, or the decoy for undercover impostors
+  hints?: string[]; // Only sent to impostors when hints are enabled
+  teammates?: Pick<Player, "id" | "name">[]; // Fellow impostors, with impostorTeam
+  specialRole?: SpecialRole;
+  investigations?: Investigation[]; // The detective's own checks
 }
 
 export interface GameStartedData {
   gameState: GameState;
+  privateData?: PrivatePlayerData;
+}
+
+export interface PhaseChangedData {
+  phase: GameState["phase"];
+  gameState: GameState;
+  privateData?: PrivatePlayerData;
+}
+
+export interface TimerUpdatedData {
+  timer?: PhaseTimer;
+}
+
+export interface PlayerKickedData {
+  playerId: string;
+  playerName: string;
+  banned: boolean;
+  players: Player[];
+}
+
+export interface RoomLockChangedData {
+  locked: boolean;
+}
+
+export interface RoomSettingsUpdatedData {
+  settings: GameConfig;
+}
+
+export interface ClueSubmittedData {
+  clues: Clue[];
+  clueTurnIndex: number;
+  timer?: PhaseTimer;
+}
+
+export interface ImpostorGuessSubmittedData {
+  impostorGuesses: ImpostorGuess[];
 }
 
 export interface ImpostorRevealedData {
   impostors: Player[];
+  word: string;
+}
+
+export interface VoteSubmittedData {
+  voteCount: number;
+  totalPlayers: number;
+  remainingMs?: number; // Lets clients resync their voting countdown
+}
+
+export interface VotingResultsData {
+  votingResults?: VotingResult[];
+  winners?: string[];
+  players: Player[];
+  impostors: Player[];
+  word: string;
+}
+
+export interface TimerControlData {
+  action: TimerAction;
+  seconds?: number; // How long to extend by
+}
+
+export interface PlayerTargetData {
+  playerId: string;
+}
+
+export interface LockRoomData {
+  locked: boolean;
+}
+
+export interface SubmitVoteData {
+  votedForId: string;
+}
+
+export interface SubmitClueData {
+  clue: string;
+}
+
+export interface SubmitImpostorGuessData {
+  guess: string;
+}
+
+export interface SendChatMessageData {
+  text: string;
+  channel?: ChatChannel;
 }
 
 export interface NotificationData {
@@ -0,0 +1,136 @@
+import type {
+  ChatMessage,
+  ClueSubmittedData,
+  CreateRoomData,
+  GameConfig,
+  GameStartedData,
+  HostChangedData,
+  HostPhaseChange,
+  ImpostorGuessSubmittedData,
+  ImpostorRevealedData,
+  Investigation,
+  JoinQueueData,
+  JoinRoomData,
+  LockRoomData,
+  NotificationData,
+  PhaseChangedData,
+  PlayerConnectedData,
+  PlayerKickedData,
+  PlayerTargetData,
+  PlayerUpdatedData,
+  PublicRoomSummary,
+  RejoinRoomData,
+  RoomClosedData,
+  RoomEntryData,
+  RoomLockChangedData,
+  RoomRejoinedData,
+  RoomSettingsUpdatedData,
+  SendChatMessageData,
+  SubmitClueData,
+  SubmitImpostorGuessData,
+  SubmitVoteData,
+  TimerControlData,
+  TimerUpdatedData,
+  VoteSubmittedData,
+  VotingResultsData,
+} from "./game";
+
+// A payload field the server rejected, e.g. { path: "playerName", message:
+// "Expected string" }
+export interface PayloadIssue {
+  path: string;
+  message: string;
+}
+
+// Every request gets one of these back. Failed requests carry an error, and
+// payloads that don't match the contract also list what was wrong with them.
+export type SocketResponse<T = object> = {
+  success: boolean;
+  error?: string;
+  issues?: PayloadIssue[];
+} & Partial<T>;
+
+export type SocketCallback<T = object> = (response: SocketResponse<T>) => void;
+
+// Events the server sends. Payloads never contain another player's secrets.
+export interface ServerToClientEvents {
+  "player-joined": (data: PlayerConnectedData) => void;
+  "player-rejoined": (data: PlayerConnectedData) => void;
+  "player-disconnected": (data: PlayerConnectedData) => void;
+  "player-left": (data: PlayerUpdatedData) => void;
+  "player-kicked": (data: PlayerKickedData) => void;
+  "player-revealed-update": (data: PlayerUpdatedData) => void;
+  "host-changed": (data: HostChangedData) => void;
+  "room-lock-changed": (data: RoomLockChangedData) => void;
+  "room-settings-updated": (data: RoomSettingsUpdatedData) => void;
+  "room-closed": (data: RoomClosedData) => void;
+  "match-found": (data: RoomEntryData) => void;
+  "game-started": (data: GameStartedData) => void;
+  "phase-changed": (data: PhaseChangedData) => void;
+  "timer-updated": (data: TimerUpdatedData) => void;
+  "clue-submitted": (data: ClueSubmittedData) => void;
+  "vote-submitted": (data: VoteSubmittedData) => void;
+  "voting-results": (data: VotingResultsData) => void;
+  "impostor-guess-submitted": (data: ImpostorGuessSubmittedData) => void;
+  "impostor-revealed": (data: ImpostorRevealedData) => void;
+  "chat-message": (message: ChatMessage) => void;
+  notification: (notification: NotificationData) => void;
+}
+
+// Events clients send; the server checks each payload against
+// src/server/socket-schemas.ts before its handler runs
+export interface ClientToServerEvents {
+  "create-room": (
+    data: CreateRoomData,
+    callback: SocketCallback<RoomEntryData>,
+  ) => void;
+  "join-room": (
+    data: JoinRoomData,
+    callback: SocketCallback<RoomEntryData>,
+  ) => void;
+  "rejoin-room": (
+    data: RejoinRoomData,
+    callback: SocketCallback<RoomRejoinedData>,
+  ) => void;
+  "leave-room": (data: object, callback: SocketCallback) => void;
+  "close-room": (callback: SocketCallback) => void;
+  "list-public-rooms": (
+    callback: SocketCallback<{ rooms: PublicRoomSummary[] }>,
+  ) => void;
+  "join-queue": (
+    data: JoinQueueData,
+    callback: SocketCallback<{ waiting: number }>,
+  ) => void;
+  "leave-queue": (callback: SocketCallback) => void;
+  "kick-player": (data: PlayerTargetData, callback: SocketCallback) => void;
+  "ban-player": (data: PlayerTargetData, callback: SocketCallback) => void;
+  "transfer-host": (data: PlayerTargetData, callback: SocketCallback) => void;
+  "lock-room": (data: LockRoomData, callback: SocketCallback) => void;
+  "update-room-settings": (data: GameConfig, callback: SocketCallback) => void;
+  "start-game": (data: GameConfig, callback: SocketCallback) => void;
+  "restart-game": (data: GameConfig, callback: SocketCallback) => void;
+  "player-revealed": (callback: SocketCallback) => void;
+  "change-phase": (phase: HostPhaseChange, callback: SocketCallback) => void;
+  "timer-control": (data: TimerControlData, callback: SocketCallback) => void;
+  "submit-clue": (data: SubmitClueData, callback: SocketCallback) => void;
+  "submit-vote": (data: SubmitVoteData, callback: SocketCallback) => void;
+  "calculate-votes": (callback: SocketCallback) => void;
+  "investigate-player": (
+    data: PlayerTargetData,
+    callback: SocketCallback<{ investigation: Investigation }>,
+  ) => void;
+  "submit-impostor-guess": (
+    data: SubmitImpostorGuessData,
+    callback: SocketCallback,
+  ) => void;
+  "reveal-impostor": (callback: SocketCallback) => void;
+  "show-standings": (callback: SocketCallback) => void;
+  "send-chat-message": (
+    data: SendChatMessageData,
+    callback: SocketCallback,
+  ) => void;
+  "get-chat-history": (
+    callback: SocketCallback<{ messages: ChatMessage[] }>,
+  ) => void;
+  "send-notification": (notification: NotificationData) => void;
+}